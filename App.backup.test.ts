@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { createBackup, diffBackup, mergeBackup, normalizeCard, parseBackup, type Card } from './App';
+import type { Translate } from './i18n';
+
+// 錯誤訊息直接回傳 key，方便比對是哪一種錯誤
+const t: Translate = key => key;
+
+const makeCard = (overrides: Partial<Card> = {}): Card => normalizeCard({
+  id: 1736035200000,
+  name: '小明',
+  stamps: Array(10).fill(false),
+  createdAt: '2025-01-05T00:00:00.000Z',
+  themeColor: 'bg-indigo-500',
+  ...overrides
+} as Card);
+
+const toBackupText = (data: Record<string, unknown>): string =>
+  JSON.stringify({ app: 'student-rewards', version: 2, exportedAt: '2025-03-01T00:00:00.000Z', rewardTiers: [], groups: [], lessons: [], ...data });
+
+describe('parseBackup', () => {
+  it('匯出後可以讀回相同的資料', () => {
+    const data = {
+      cards: [makeCard({ groupIds: ['g1'] })],
+      rewardTiers: [{ id: 't1', stamps: 5, label: '貼紙' }],
+      groups: [{ id: 'g1', name: '週三數學班' }],
+      lessons: [{ id: 'l1', cardId: 1736035200000, date: '2025-03-01', durationMinutes: 60, topic: '分數', attended: true, stampsAwarded: 1 }]
+    };
+    expect(parseBackup(JSON.stringify(createBackup(data)), t)).toMatchObject(data);
+  });
+
+  it('將 v1 備份升級到目前的格式', () => {
+    const text = JSON.stringify({
+      app: 'student-rewards',
+      version: 1,
+      cards: [{ id: 1736035200000, name: '小明', points: 2, stamps: [true, true, false], createdAt: '2025/1/5', themeColor: 'bg-rose-500' }]
+    });
+
+    const backup = parseBackup(text, t);
+
+    expect(backup).toMatchObject({ version: 2, exportedAt: '', rewardTiers: [], groups: [], lessons: [] });
+    const [card] = backup.cards;
+    expect(card.createdAt).toBe(new Date(2025, 0, 5).toISOString());
+    expect(card).toMatchObject({ goal: 3, round: 1, points: 2, history: [], groupIds: [], revision: 1 });
+    expect(card.pointLedger).toEqual([{ id: 'opening-1736035200000', amount: 2, at: card.createdAt, source: 'opening' }]);
+  });
+
+  it('拒絕不是這個 App 或版本較新的備份', () => {
+    expect(() => parseBackup('{', t)).toThrow('backup.error.invalidJson');
+    expect(() => parseBackup(JSON.stringify({ app: 'other', version: 2, cards: [] }), t)).toThrow('backup.error.wrongApp');
+    expect(() => parseBackup(toBackupText({ version: 3, cards: [] }), t)).toThrow('backup.error.newerVersion');
+    expect(() => parseBackup(toBackupText({ cards: null }), t)).toThrow('backup.error.missingCards');
+  });
+
+  it('拒絕格式錯誤的卡片', () => {
+    const card = { id: 1, name: '小明', stamps: [false, false], createdAt: '2025-01-05T00:00:00.000Z', themeColor: 'bg-rose-500' };
+    const invalidCards = [
+      { ...card, profile: { notes: {} } },
+      { ...card, goal: 3 },
+      { ...card, locale: 'fr' },
+      { ...card, history: [{ id: 'e1', index: -1, stamped: true, at: '2025-01-05T00:00:00.000Z', source: 'manual' }] }
+    ];
+    invalidCards.forEach(invalid => {
+      expect(() => parseBackup(toBackupText({ cards: [card, invalid] }), t)).toThrow('backup.error.invalidCard');
+    });
+    expect(() => parseBackup(toBackupText({ cards: [card, card] }), t)).toThrow('backup.error.duplicateIds');
+  });
+
+  it('拒絕不存在的上課日期', () => {
+    const lesson = { id: 'l1', cardId: 1, date: '2025-02-30', durationMinutes: 60, topic: '', attended: true, stampsAwarded: 0 };
+    expect(() => parseBackup(toBackupText({ cards: [], lessons: [lesson] }), t)).toThrow('backup.error.invalidLessons');
+  });
+});
+
+describe('diffBackup', () => {
+  const stamped = (card: Card, revision: number, eventId: string): Card => ({
+    ...card,
+    stamps: [true, ...card.stamps.slice(1)],
+    history: [...card.history, { id: eventId, index: 0, stamped: true, at: '2025-03-01T00:00:00.000Z', source: 'manual', round: 1 }],
+    revision
+  });
+
+  it('屬性順序不同但內容相同的卡片視為沒有變更', () => {
+    const local = makeCard();
+    const incoming = JSON.parse(JSON.stringify(Object.fromEntries(Object.entries(local).reverse()))) as Card;
+    expect(diffBackup([local], [incoming])).toMatchObject({ unchanged: [incoming], changed: [], conflicts: [] });
+  });
+
+  it('分出新增、可直接更新與衝突的卡片', () => {
+    const local = makeCard({ id: 1 });
+    const added = makeCard({ id: 2 });
+    const newer = stamped(local, 2, 'e1');
+
+    expect(diffBackup([local], [added, newer])).toEqual({ added: [added], changed: [newer], conflicts: [], unchanged: [] });
+  });
+
+  it('缺少本機紀錄或 revision 沒有比較大的備份列為衝突', () => {
+    const base = makeCard({ id: 1 });
+    const local = stamped(base, 2, 'local');
+    const diverged = stamped(base, 3, 'incoming');
+    const older = { ...local, revision: 1, profile: { ...local.profile, notes: '舊的備註' } };
+
+    expect(diffBackup([local], [diverged]).conflicts).toEqual([{ local, incoming: diverged }]);
+    expect(diffBackup([local], [older]).conflicts).toEqual([{ local, incoming: older }]);
+  });
+
+  it('本機兌換過的獎勵不在備份中時列為衝突', () => {
+    const backup = makeCard({ id: 1, revision: 2 });
+    const local = { ...backup, revision: 1, redemptions: [{ tierId: 't1', round: 1, redeemedAt: '2025-03-01T00:00:00.000Z' }] };
+    const incoming = { ...backup, revision: 3 };
+    expect(diffBackup([local], [incoming])).toMatchObject({ changed: [], conflicts: [{ local, incoming }] });
+  });
+});
+
+describe('mergeBackup', () => {
+  it('新增卡片、更新較新的卡片，衝突的卡片只有選擇備份時才覆蓋', () => {
+    const kept = makeCard({ id: 1, name: '本機' });
+    const replaced = makeCard({ id: 2, name: '本機' });
+    const updated = makeCard({ id: 3, name: '本機' });
+    const added = makeCard({ id: 4 });
+    const diff = {
+      added: [added],
+      changed: [{ ...updated, name: '備份', revision: 2 }],
+      conflicts: [
+        { local: kept, incoming: { ...kept, name: '備份' } },
+        { local: replaced, incoming: { ...replaced, name: '備份' } }
+      ],
+      unchanged: []
+    };
+
+    const merged = mergeBackup([kept, replaced, updated], diff, new Set([2]));
+
+    expect(merged.map(card => [card.id, card.name])).toEqual([[4, '小明'], [1, '本機'], [2, '備份'], [3, '備份']]);
+  });
+});
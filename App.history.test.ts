@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyHistoryEntry,
+  canApplyHistoryEntry,
+  createHistoryEntry,
+  hasOrphanLessons,
+  normalizeCard,
+  type Card,
+  type Lesson
+} from './App';
+
+const makeCard = (id: number, overrides: Partial<Card> = {}): Card => normalizeCard({
+  id,
+  name: '小明',
+  stamps: Array(5).fill(false),
+  createdAt: '2025-01-05T00:00:00.000Z',
+  themeColor: 'bg-indigo-500',
+  ...overrides
+} as Card);
+
+const emptyState = { cards: [] as Card[], lessons: [] as Lesson[], groups: [], rewardTiers: [] };
+
+const lesson: Lesson = { id: 'l1', cardId: 2, date: '2025-03-01', durationMinutes: 60, topic: '分數', attended: true, stampsAwarded: 0 };
+
+describe('createHistoryEntry', () => {
+  it('沒有任何變動時不產生紀錄', () => {
+    const state = { ...emptyState, cards: [makeCard(1)] };
+    expect(createHistoryEntry(state, { ...state }, 'stamp')).toBeNull();
+  });
+
+  it('頭像沒有變動時不存進快照', () => {
+    const card = makeCard(1, { profile: { avatar: 'data:image/jpeg;base64,AAAA' } as Card['profile'] });
+    const entry = createHistoryEntry({ ...emptyState, cards: [card] }, { ...emptyState, cards: [{ ...card, name: '小華' }] }, 'profile')!;
+    expect(entry.changes[0].before?.profile.avatar).toBeUndefined();
+    expect(entry.changes[0].after?.profile.avatar).toBeUndefined();
+  });
+});
+
+describe('applyHistoryEntry', () => {
+  it('復原與重做修改、新增的卡片', () => {
+    const existing = makeCard(1);
+    const before = { ...emptyState, cards: [existing] };
+    const after = { ...emptyState, cards: [makeCard(2), { ...existing, name: '小華' }] };
+    const entry = createHistoryEntry(before, after, 'create')!;
+
+    expect(canApplyHistoryEntry(after, entry, 'undo')).toBe(true);
+    const undone = applyHistoryEntry(after, entry, 'undo');
+    expect(undone.cards.map(card => [card.id, card.name])).toEqual([[1, '小明']]);
+
+    expect(canApplyHistoryEntry(undone, entry, 'redo')).toBe(true);
+    expect(applyHistoryEntry(undone, entry, 'redo').cards.map(card => [card.id, card.name])).toEqual([[2, '小明'], [1, '小華']]);
+  });
+
+  it('快照沒有頭像時保留目前的頭像', () => {
+    const avatar = 'data:image/jpeg;base64,AAAA';
+    const card = makeCard(1, { profile: { avatar } as Card['profile'] });
+    const after = { ...emptyState, cards: [{ ...card, name: '小華' }] };
+    const entry = createHistoryEntry({ ...emptyState, cards: [card] }, after, 'profile')!;
+    expect(applyHistoryEntry(after, entry, 'undo').cards[0].profile.avatar).toBe(avatar);
+  });
+
+  it('一起復原課程紀錄、分組與獎勵設定', () => {
+    const group = { id: 'g1', name: '週三數學班' };
+    const tier = { id: 't1', stamps: 5, label: '貼紙' };
+    const before = { ...emptyState, cards: [makeCard(2)] };
+    const after = { ...before, lessons: [lesson], groups: [group], rewardTiers: [tier] };
+    const entry = createHistoryEntry(before, after, 'import')!;
+
+    expect(applyHistoryEntry(after, entry, 'undo')).toEqual(before);
+    expect(applyHistoryEntry(before, entry, 'redo')).toEqual(after);
+  });
+});
+
+describe('canApplyHistoryEntry', () => {
+  it('只有 revision 與 updatedAt 不同時仍可以套用', () => {
+    const card = makeCard(1);
+    const after = { ...emptyState, cards: [{ ...card, name: '小華' }] };
+    const entry = createHistoryEntry({ ...emptyState, cards: [card] }, after, 'profile')!;
+    const saved = { ...after, cards: [{ ...after.cards[0], revision: 2, updatedAt: '2025-03-01T00:00:00.000Z' }] };
+    expect(canApplyHistoryEntry(saved, entry, 'undo')).toBe(true);
+  });
+
+  it('之後又被修改過的資料不能套用', () => {
+    const card = makeCard(1);
+    const group = { id: 'g1', name: '週三數學班' };
+    const after = { ...emptyState, cards: [{ ...card, name: '小華' }], groups: [group] };
+    const entry = createHistoryEntry({ ...emptyState, cards: [card] }, after, 'group')!;
+
+    expect(canApplyHistoryEntry({ ...after, cards: [{ ...card, name: '小英' }] }, entry, 'undo')).toBe(false);
+    expect(canApplyHistoryEntry({ ...after, groups: [{ ...group, name: '週五英文班' }] }, entry, 'undo')).toBe(false);
+    expect(canApplyHistoryEntry({ ...after, cards: [] }, entry, 'undo')).toBe(false);
+  });
+});
+
+describe('hasOrphanLessons', () => {
+  it('復原新增學生後仍有他的課程紀錄時回報', () => {
+    const after = { ...emptyState, cards: [makeCard(2)] };
+    const entry = createHistoryEntry(emptyState, after, 'create')!;
+    const withLesson = { ...after, lessons: [lesson] };
+
+    expect(canApplyHistoryEntry(withLesson, entry, 'undo')).toBe(true);
+    expect(hasOrphanLessons(applyHistoryEntry(withLesson, entry, 'undo'))).toBe(true);
+    expect(hasOrphanLessons(applyHistoryEntry(after, entry, 'undo'))).toBe(false);
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { decodeCardData, encodeCardData, normalizeCard, parseCardData, type Card } from './App';
+
+const makeCard = (overrides: Partial<Card> = {}): Card => normalizeCard({
+  id: 1736035200000,
+  name: '小明',
+  stamps: Array(10).fill(false),
+  createdAt: '2025-01-05T00:00:00.000Z',
+  themeColor: 'bg-indigo-500',
+  ...overrides
+} as Card);
+
+const toBase64Url = (bytes: Uint8Array): string => Buffer.from(bytes).toString('base64url');
+
+// 舊版連結：btoa(encodeURIComponent(JSON))
+const encodeLegacy = (data: unknown): string => btoa(encodeURIComponent(JSON.stringify(data)));
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('V3 分享連結', () => {
+  it('編碼後可以解回相同的內容', () => {
+    const card = makeCard({
+      name: 'Amy 小美',
+      stamps: [true, false, true, ...Array(7).fill(false)],
+      goal: 10,
+      themeColor: '#12ab34',
+      stampIcon: 'star',
+      locale: 'en',
+      pointLedger: [{ id: 'p1', amount: -3, at: '2025-03-01T00:00:00.000Z', source: 'adjustment' }],
+      completedRounds: [
+        { round: 1, goal: 10, startedAt: '2025-01-05T00:00:00.000Z', completedAt: '2025-02-01T00:00:00.000Z' },
+        { round: 2, goal: 10, startedAt: '2025-02-01T00:00:00.000Z', completedAt: '2025-03-01T00:00:00.000Z' }
+      ]
+    });
+    const rewards = [{ stamps: 5, label: '貼紙', redeemed: true }, { stamps: 10, label: '點心', redeemed: false }];
+
+    const shared = parseCardData(encodeCardData(card, rewards, ['first-card', 'every-week']));
+
+    expect(shared).toMatchObject({
+      name: 'Amy 小美',
+      stamps: card.stamps,
+      goal: 10,
+      themeColor: '#12ab34',
+      stampIcon: 'star',
+      locale: 'en',
+      points: -3,
+      createdAt: '2025-01-05',
+      rewards,
+      badges: ['first-card', 'every-week']
+    });
+    expect(shared?.completedRounds).toHaveLength(2);
+  });
+
+  it('預設顏色與印章不寫入自訂欄位', () => {
+    const shared = parseCardData(encodeCardData(makeCard()));
+    expect(shared).toMatchObject({ themeColor: 'bg-indigo-500', goal: 10, points: 0, completedRounds: [] });
+    expect(shared?.stampIcon).toBeUndefined();
+    expect(shared?.locale).toBeUndefined();
+  });
+
+  it('拒絕格數超過上限的連結', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    // Stamps 欄位：varint 268435456 格，後面沒有任何蓋章資料
+    const encoded = toBase64Url(Uint8Array.from([3, 2, 5, 0x80, 0x80, 0x80, 0x80, 0x01]));
+    expect(parseCardData(encoded)).toBeNull();
+  });
+
+  it('拒絕格數多於實際資料的連結', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    // 16 格只帶了 1 個位元組
+    const encoded = toBase64Url(Uint8Array.from([3, 2, 2, 16, 0xff]));
+    expect(parseCardData(encoded)).toBeNull();
+  });
+
+  it('拒絕完成張數超過上限的連結', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const encoded = toBase64Url(Uint8Array.from([3, 5, 4, 0x80, 0x80, 0x80, 0x01]));
+    expect(parseCardData(encoded)).toBeNull();
+  });
+});
+
+describe('舊版分享連結', () => {
+  it('解碼 V2 陣列格式', () => {
+    const shared = parseCardData(encodeLegacy(['小明', 0b101, 2, '2025/1/5', 10, 1, [[5, '貼紙', 1]]]));
+    expect(shared).toMatchObject({
+      name: '小明',
+      goal: 10,
+      points: 2,
+      themeColor: 'bg-emerald-500',
+      createdAt: '2025/1/5',
+      rewards: [{ stamps: 5, label: '貼紙', redeemed: true }]
+    });
+    expect(shared?.stamps).toEqual([true, false, true, ...Array(7).fill(false)]);
+    expect(shared?.completedRounds).toHaveLength(1);
+  });
+
+  it('較舊的 V2 連結預設為 30 格', () => {
+    const shared = parseCardData(encodeLegacy(['小明', 1, 0, '2025/1/5']));
+    expect(shared?.stamps).toHaveLength(30);
+    expect(shared?.completedRounds).toEqual([]);
+  });
+
+  it('解碼 V1 物件格式', () => {
+    const shared = parseCardData(encodeLegacy({ n: '小明', p: 1, s: [true, false], t: 'bg-rose-500', d: '2025/1/5' }));
+    expect(shared).toMatchObject({ name: '小明', points: 1, stamps: [true, false], goal: 2, themeColor: 'bg-rose-500' });
+  });
+
+  it('拒絕格數或完成張數超過上限的 V2 連結', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(parseCardData(encodeLegacy(['小明', 0, 0, '2025/1/5', 300000000]))).toBeNull();
+    expect(parseCardData(encodeLegacy(['小明', 0, 0, '2025/1/5', 10, 300000000]))).toBeNull();
+    expect(parseCardData(encodeLegacy(['小明', 0, 0, '2025/1/5', -1]))).toBeNull();
+  });
+});
+
+describe('分享連結簽章', () => {
+  const sign = async (encoded: string) => {
+    const { privateKey, publicKey } = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+    const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, privateKey, new TextEncoder().encode(encoded));
+    return {
+      signature: toBase64Url(new Uint8Array(signature)),
+      publicKey: toBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', publicKey)))
+    };
+  };
+
+  it('區分已簽章、被修改與沒有簽章的連結', async () => {
+    vi.stubGlobal('localStorage', { removeItem: () => {} });
+    const encoded = encodeCardData(makeCard({ name: '小明' }));
+    const tampered = encodeCardData(makeCard({ name: '小華' }));
+    const { signature, publicKey } = await sign(encoded);
+
+    const signed = await decodeCardData(encoded, signature, publicKey);
+    expect(signed?.verification).toBe('signed');
+    expect(signed?.keyFingerprint).toMatch(/^[0-9A-F]{4}(-[0-9A-F]{4}){3}$/);
+    expect((await decodeCardData(tampered, signature, publicKey))?.verification).toBe('modified');
+    expect((await decodeCardData(encoded))?.verification).toBe('unsigned');
+  });
+});
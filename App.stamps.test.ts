@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { applyStampToggle, normalizeCard, revertStampBatch, type Card } from './App';
+
+const AT = '2025-03-01T10:00:00.000Z';
+
+const makeCard = (goal: number): Card => normalizeCard({
+  id: 1736035200000,
+  name: '小明',
+  stamps: Array(goal).fill(false),
+  createdAt: '2025-01-05T00:00:00.000Z',
+  themeColor: 'bg-indigo-500'
+} as Card);
+
+describe('applyStampToggle', () => {
+  it('依章的種類加點，取消蓋章時扣回這一格原本的點數', () => {
+    const stamped = applyStampToggle(makeCard(5), 2, 'manual', { stampType: 'test', at: AT }).card;
+    expect(stamped.points).toBe(3);
+    expect(stamped.pointLedger).toMatchObject([{ amount: 3, source: 'stamp', stampType: 'test', stampEventId: stamped.history[0].id }]);
+
+    const unstamped = applyStampToggle(stamped, 2, 'manual', { at: AT }).card;
+    expect(unstamped.stamps[2]).toBe(false);
+    expect(unstamped.points).toBe(0);
+    expect(unstamped.history[1]).toMatchObject({ index: 2, stamped: false, stampType: 'test', round: 1 });
+  });
+
+  it('集滿時封存這張卡並開始新的一張，點數不會歸零', () => {
+    let card = makeCard(3);
+    card = applyStampToggle(card, 0, 'manual', { stampType: 'bonus', at: AT }).card;
+    card = applyStampToggle(card, 1, 'manual', { at: AT }).card;
+    const { card: rolled, completed } = applyStampToggle(card, 2, 'manual', { stampType: 'test', at: AT });
+
+    expect(completed).toBe(true);
+    expect(rolled).toMatchObject({ stamps: [false, false, false], round: 2, roundStartedAt: AT, points: 9 });
+    expect(rolled.completedRounds).toEqual([{ round: 1, goal: 3, startedAt: card.roundStartedAt, completedAt: AT }]);
+    expect(rolled.history[2]).toMatchObject({ index: 2, stamped: true, round: 1 });
+  });
+});
+
+describe('revertStampBatch', () => {
+  const stampSession = (card: Card, index: number): Card =>
+    applyStampToggle(card, index, 'session', { batchId: 'b1', stampType: 'bonus', at: AT }).card;
+
+  it('只收回這個批次目前仍在卡上的章，並記錄為已復原', () => {
+    let card = stampSession(stampSession(makeCard(5), 0), 1);
+    // 第 2 格之後被取消又重新蓋過，已經不是這個批次蓋的章
+    card = applyStampToggle(card, 1, 'manual', { at: AT }).card;
+    card = applyStampToggle(card, 1, 'manual', { at: AT }).card;
+    expect(card.points).toBe(6);
+
+    const { card: reverted, skipped } = revertStampBatch(card, 'b1');
+
+    expect(skipped).toBe(1);
+    expect(reverted.stamps.slice(0, 2)).toEqual([false, true]);
+    expect(reverted.points).toBe(1);
+    expect(reverted.history.at(-1)).toMatchObject({ index: 0, stamped: false, source: 'revert', batchId: 'b1' });
+    expect(reverted.revertedBatchIds).toEqual(['b1']);
+  });
+
+  it('已封存的卡片不受影響，但批次仍記錄為已復原', () => {
+    const card = stampSession(stampSession(makeCard(2), 0), 1);
+    expect(card.round).toBe(2);
+
+    const { card: reverted, skipped } = revertStampBatch(card, 'b1');
+
+    expect(skipped).toBe(2);
+    expect(reverted).toMatchObject({ round: 2, points: 10, history: card.history, revertedBatchIds: ['b1'] });
+  });
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { 
   Plus, 
   List, 
@@ -14,752 +14,5894 @@ import {
   Check,
   Sparkles,
   Eye,
-  LogOut
+  LogOut,
+  History,
+  X,
+  Gift,
+  ShieldCheck,
+  ShieldAlert,
+  DatabaseBackup,
+  Download,
+  Upload,
+  Users,
+  Pencil,
+  Search,
+  ArrowUpDown,
+  Filter,
+  ClipboardCheck,
+  Minus,
+  Undo2,
+  BookOpen,
+  CalendarDays,
+  ChevronLeft,
+  BarChart3,
+  Languages,
+  Palette,
+  Printer,
+  Maximize2,
+  WifiOff,
+  Camera,
+  Phone,
+  StickyNote,
+  RotateCcw,
+  AlertTriangle,
+  Redo2,
+  Coins,
+  Medal
 } from 'lucide-react';
+import {
+  loadCards,
+  saveCardChanges,
+  broadcastCardChanges,
+  subscribeCardChanges,
+  type CardChangeMessage,
+  broadcastRecordChanges,
+  subscribeRecordChanges,
+  type RecordChangeMessage,
+  type SyncedRecordKind,
+  loadGroups,
+  saveGroupChanges,
+  loadLessons,
+  saveLessonChanges,
+  loadSetting,
+  saveSetting,
+  toIsoTimestamp
+} from './storage';
+import {
+  LOCALES,
+  LOCALE_LABELS,
+  I18nContext,
+  createI18n,
+  detectLocale,
+  isLocale,
+  useI18n,
+  type I18n,
+  type Locale,
+  type MessageKey,
+  type Translate
+} from './i18n';
+import {
+  EncouragementContext,
+  createGeminiProvider,
+  templateProvider,
+  useEncouragement,
+  type EncouragementRequest
+} from './encouragement';
+import { encode as encodeQr } from 'uqr';
 
 // --- Constants ---
 
-// 定義顏色常數，以便透過索引 (0, 1, 2, 3) 來參照，節省網址空間
+// 定義顏色常數，以便透過索引 (0, 1, 2, ...) 來參照，節省網址空間
+// value 是卡片上存的 themeColor (沿用舊版的 Tailwind class 名稱)，新增顏色一律加在最後面
 const THEME_COLORS = [
-  'bg-rose-500', 
-  'bg-indigo-500', 
-  'bg-emerald-500', 
-  'bg-orange-500'
+  { value: 'bg-rose-500', hex: '#f43f5e' },
+  { value: 'bg-indigo-500', hex: '#6366f1' },
+  { value: 'bg-emerald-500', hex: '#10b981' },
+  { value: 'bg-orange-500', hex: '#f97316' },
+  { value: 'bg-sky-500', hex: '#0ea5e9' },
+  { value: 'bg-violet-500', hex: '#8b5cf6' },
+  { value: 'bg-amber-500', hex: '#f59e0b' },
+  { value: 'bg-teal-500', hex: '#14b8a6' }
 ];
 
+// 自訂顏色以 #rrggbb 存在 themeColor
+const CUSTOM_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// 印章圖案，分享連結中以索引表示，新增圖案一律加在最後面
+const STAMP_ICONS = ['check', 'star', 'heart', 'paw', 'cat'] as const;
+
+// 蓋章的種類與每種章的點數，新增種類一律加在最後面
+const STAMP_TYPES = ['homework', 'test', 'bonus'] as const;
+const STAMP_TYPE_POINTS: Record<StampType, number> = { homework: 1, test: 3, bonus: 5 };
+const DEFAULT_STAMP_TYPE: StampType = 'homework';
+
+// 每張集點卡的格數
+const DEFAULT_CARD_GOAL = 30;
+const CARD_GOAL_OPTIONS = [10, 20, 30, 50];
+
+const EMPTY_PROFILE: StudentProfile = {
+  nickname: '',
+  avatar: '',
+  grade: '',
+  parentName: '',
+  parentContact: '',
+  notes: ''
+};
+
+// 照片縮小成這個邊長再存進 IndexedDB，避免資料庫與備份檔過大
+const AVATAR_SIZE = 256;
+
 // --- Types ---
 
-type ViewType = 'home' | 'create' | 'records' | 'card';
+type StampIcon = typeof STAMP_ICONS[number];
+
+type StampType = typeof STAMP_TYPES[number];
+
+type ViewType = 'home' | 'create' | 'records' | 'card' | 'profile' | 'rewards' | 'backup' | 'groups' | 'session' | 'calendar' | 'trash';
+
+// 目前畫面對應的網址，card、profile 與 session 需要額外的學生 id
+interface Route {
+  view: ViewType;
+  cardId: number | null;
+  sessionCardIds: number[];
+}
+
+// 蓋章事件的觸發來源
+// manual: 在集點卡上點擊；session: 課堂模式一次蓋多位學生；revert: 復原整批課堂蓋章；lesson: 記錄課程時給的章
+type StampEventSource = 'manual' | 'session' | 'revert' | 'lesson';
+
+interface StampEvent {
+  id: string;
+  index: number;       // 第幾格 (從 0 開始)
+  stamped: boolean;    // true = 蓋章, false = 取消蓋章
+  at: string;          // ISO 時間戳記
+  source: StampEventSource;
+  reason?: string;
+  round?: number;      // 發生在第幾張卡
+  batchId?: string;    // 課堂模式中同一次確認的蓋章共用同一個 batchId
+  lessonId?: string;   // 由哪一堂課給的章
+  stampType?: StampType; // 蓋章的種類 (取消蓋章時為被取消的那一格)；舊紀錄沒有此欄位，視為 homework
+}
+
+// 由 batchId 彙整出的一次課堂蓋章紀錄
+interface StampBatch {
+  id: string;
+  at: string;
+  reason?: string;
+  entries: { cardId: number; name: string; count: number }[];
+  reverted: boolean;
+}
+
+// 已集滿並封存的集點卡
+interface CompletedRound {
+  round: number;
+  goal: number;
+  startedAt: string;   // ISO 時間戳記
+  completedAt: string; // ISO 時間戳記
+}
+
+// 集滿指定格數即可兌換的獎勵 (所有學生共用)
+export interface RewardTier {
+  id: string;
+  stamps: number;
+  label: string;
+}
+
+// 已兌換的獎勵，同一張卡的同一個獎勵只能兌換一次
+interface RewardRedemption {
+  tierId: string;
+  round: number;
+  redeemedAt: string;  // ISO 時間戳記
+}
+
+// 點數帳本的一筆紀錄，點數餘額是所有紀錄的加總
+// stamp: 蓋章或取消蓋章；adjustment: 老師手動加減點；opening: 舊版資料原有的點數
+type PointEntrySource = 'stamp' | 'adjustment' | 'opening';
+
+interface PointEntry {
+  id: string;
+  amount: number;          // 正數為加點，負數為扣點
+  at: string;              // ISO 時間戳記
+  source: PointEntrySource;
+  reason?: string;
+  stampEventId?: string;   // 由哪一次蓋章產生
+  stampType?: StampType;
+}
+
+// 學生的個人資料，只存在老師的裝置上，不會放進分享連結
+interface StudentProfile {
+  nickname: string;
+  avatar: string;          // 縮小後的照片 (JPEG data URL)，沒有照片時為空字串
+  grade: string;
+  parentName: string;
+  parentContact: string;   // 電話、Email 或 LINE ID
+  notes: string;           // 老師的備註
+}
+
+export interface Card {
+  id: number;
+  name: string;
+  points: number;                    // 點數餘額 (pointLedger 的加總，集滿換新卡時不會歸零)
+  stamps: boolean[];
+  createdAt: string;                 // ISO 時間戳記
+  themeColor: string;                // 預設顏色的 value 或自訂的 #rrggbb
+  stampIcon: StampIcon;
+  history: StampEvent[];
+  pointLedger: PointEntry[];
+  goal: number;                      // 每張卡的格數
+  round: number;                     // 目前是第幾張卡 (從 1 開始)
+  roundStartedAt: string;            // 目前這張卡的開始時間 (ISO)
+  completedRounds: CompletedRound[];
+  redemptions: RewardRedemption[];
+  groupIds: string[];                // 所屬的班級/分組
+  revertedBatchIds: string[];        // 已復原的課堂蓋章批次 (即使每個章都無法收回也會記錄)
+  locale?: Locale;                   // 學生偏好的語言，分享連結會用這個語言開啟；未設定時依開啟的裝置而定
+  profile: StudentProfile;
+  deletedAt?: string;                // 移到垃圾桶的時間 (ISO)；保留天數過後才會永久刪除
+  revision: number;                  // 每次修改加 1，多個分頁同時開啟時用來判斷哪一份比較新
+  updatedAt: string;                 // 最後修改時間 (ISO)
+}
+
+// 可以復原的卡片操作 (顯示在復原/重做按鈕上)
+type CardAction =
+  | 'create' | 'delete' | 'restore' | 'stamp' | 'session' | 'revertSession' | 'lesson' | 'deleteLesson'
+  | 'profile' | 'theme' | 'locale' | 'redeem' | 'group' | 'import' | 'points';
+
+// 復原紀錄中的卡片快照；頭像的 data URL 很大，只有這一步修改了頭像 (或新增/移除整張卡) 時才保留
+type CardSnapshot = Omit<Card, 'profile'> & { profile: Omit<StudentProfile, 'avatar'> & { avatar?: string } };
+
+// 一次操作前後的快照；before 為 null 代表新增，after 為 null 代表移除
+// 課程紀錄、分組與獎勵設定也一起記錄，復原時和卡片一起還原 (例如復原匯入備份)
+interface CardHistoryEntry {
+  id: string;
+  action: CardAction;
+  at: string;  // ISO 時間戳記
+  changes: { cardId: number; before: CardSnapshot | null; after: CardSnapshot | null }[];
+  lessonChanges?: { lessonId: string; before: Lesson | null; after: Lesson | null }[];
+  groups?: { before: Group[]; after: Group[] };
+  rewardTiers?: { before: RewardTier[]; after: RewardTier[] };
+}
+
+// 復原/重做會一起修改的資料
+interface HistoryState {
+  cards: Card[];
+  lessons: Lesson[];
+  groups: Group[];
+  rewardTiers: RewardTier[];
+}
+
+// 復原/重做紀錄，存在 IndexedDB 中，重新整理後仍然可以復原
+export interface CardHistory {
+  undo: CardHistoryEntry[];
+  redo: CardHistoryEntry[];
+}
+
+// 同一張卡在另一個分頁也被修改了，需要老師選擇保留哪一份
+interface CardConflict {
+  local: Card;
+  remote: Card;
+}
+
+// 學生列表的排序與篩選 (會記住上次的選擇)
+type RecordsSort = 'created' | 'name' | 'points' | 'activity';
+type RecordsFilter = 'all' | 'nearComplete' | 'inactive';
+
+export interface RecordsListPrefs {
+  sort: RecordsSort;
+  filter: RecordsFilter;
+}
+
+// 一堂課的紀錄 (包含出缺席)
+export interface Lesson {
+  id: string;
+  cardId: number;
+  date: string;              // 上課日期 (YYYY-MM-DD，本地時間)
+  durationMinutes: number;
+  topic: string;
+  attended: boolean;
+  stampsAwarded: number;     // 這堂課給了幾個章
+}
+
+type LessonDraft = Omit<Lesson, 'id' | 'cardId'>;
+
+// 編輯學生資料畫面可以修改的欄位
+type ProfileDraft = Pick<Card, 'name' | 'profile'>;
+
+// 卡片外觀 (建立與編輯卡片時選擇)
+type CardTheme = Pick<Card, 'themeColor' | 'stampIcon'>;
+
+// 班級或分組 (例如「週三數學班」)，一位學生可以屬於多個分組
+export interface Group {
+  id: string;
+  name: string;
+}
+
+// 分享連結中攜帶的獎勵資訊 (學生端沒有獎勵設定)
+interface SharedReward {
+  stamps: number;
+  label: string;
+  redeemed: boolean;
+}
+
+// 成就徽章的計算方式，每一種都由卡片與課程紀錄算出一個數值
+type BadgeMetric = 'lessonStreak' | 'completedCards' | 'totalStamps' | 'everyWeekThisMonth';
+
+// 成就徽章的規則：metric 的數值達到 threshold 就獲得徽章
+interface BadgeRule {
+  id: string;               // 分享連結中以 id 表示，發布後不可更改
+  metric: BadgeMetric;
+  threshold: number;
+  emoji: string;
+  title: MessageKey;
+  description: MessageKey;
+}
+
+interface BadgeProgress {
+  rule: BadgeRule;
+  value: number;
+  earned: boolean;
+}
+
+// 分享連結的簽章驗證結果
+// signed: 內容與連結中的公鑰相符 (任何人都能用自己的金鑰簽章，是否為老師的金鑰要再比對指紋)
+// modified: 簽章錯誤；unsigned: 沒有簽章的舊連結
+type ShareVerification = 'signed' | 'modified' | 'unsigned';
+
+// 學生端 (唯讀) 看到的卡片資料
+type SharedCard = Partial<Card> & {
+  rewards?: SharedReward[];
+  badges?: string[];        // 已獲得的徽章 id
+  verification?: ShareVerification;
+  keyFingerprint?: string;
+};
+
+// 備份檔內容
+interface BackupFile {
+  app: typeof BACKUP_APP_ID;
+  version: number;
+  exportedAt: string;  // ISO 時間戳記
+  cards: Card[];
+  rewardTiers: RewardTier[];
+  groups: Group[];
+  lessons: Lesson[];
+}
+
+// 備份檔中實際的資料內容
+type BackupData = Pick<BackupFile, 'cards' | 'rewardTiers' | 'groups' | 'lessons'>;
+
+// 匯入備份時與現有資料的比對結果
+// changed: 備份比本機新 (revision 較大) 且包含本機的所有紀錄，可直接更新；其他有差異的都列為 conflict
+interface BackupDiff {
+  added: Card[];
+  changed: Card[];
+  conflicts: { local: Card; incoming: Card }[];
+  unchanged: Card[];
+}
+
+// 首頁統計面板的資料
+interface DashboardStats {
+  weeklyStamps: { weekStart: Date; count: number }[];
+  mostActive: { card: Card; count: number }[];
+  leastActive: { card: Card; count: number }[];
+  averageDaysToComplete: number | null;
+  inactiveCards: Card[];
+}
+
+interface BaseProps {
+  onNavigate: (view: ViewType) => void;
+}
+
+const LESSON_DURATION_OPTIONS = [30, 45, 60, 90, 120];
+
+const DEFAULT_RECORDS_LIST_PREFS: RecordsListPrefs = { sort: 'created', filter: 'all' };
+
+const RECORDS_SORT_OPTIONS: RecordsSort[] = ['created', 'name', 'points', 'activity'];
+const RECORDS_FILTER_OPTIONS: RecordsFilter[] = ['all', 'nearComplete', 'inactive'];
+
+// 超過這個天數沒有蓋章就視為「不活躍」
+const INACTIVE_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 垃圾桶中的卡片保留幾天後永久刪除
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60];
+
+// 最多保留幾步復原紀錄
+const CARD_HISTORY_LIMIT = 50;
+
+const EMPTY_CARD_HISTORY: CardHistory = { undo: [], redo: [] };
+
+// 刪除後「復原」提示顯示的時間
+const UNDO_TOAST_MS = 6000;
+
+const DEFAULT_REWARD_TIERS: RewardTier[] = [
+  { id: 'default-10', stamps: 10, label: '貼紙' },
+  { id: 'default-20', stamps: 20, label: '點心' },
+  { id: 'default-30', stamps: 30, label: '一本書' }
+];
+
+// 成就徽章，新增徽章只需要在這裡加一筆規則 (並在 i18n 加上名稱與說明)
+const BADGE_RULES: BadgeRule[] = [
+  { id: 'streak-3', metric: 'lessonStreak', threshold: 3, emoji: '🔥', title: 'badge.streak3.title', description: 'badge.streak3.description' },
+  { id: 'streak-10', metric: 'lessonStreak', threshold: 10, emoji: '🚀', title: 'badge.streak10.title', description: 'badge.streak10.description' },
+  { id: 'first-card', metric: 'completedCards', threshold: 1, emoji: '🏅', title: 'badge.firstCard.title', description: 'badge.firstCard.description' },
+  { id: 'three-cards', metric: 'completedCards', threshold: 3, emoji: '🏆', title: 'badge.threeCards.title', description: 'badge.threeCards.description' },
+  { id: 'stamps-100', metric: 'totalStamps', threshold: 100, emoji: '💯', title: 'badge.stamps100.title', description: 'badge.stamps100.description' },
+  { id: 'every-week', metric: 'everyWeekThisMonth', threshold: 1, emoji: '📅', title: 'badge.everyWeek.title', description: 'badge.everyWeek.description' }
+];
+
+// --- Helper Functions for Card Data ---
+
+const createId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// 本地時間的日期字串 (YYYY-MM-DD)，用來依日期分組
+const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// 補齊舊版資料缺少的欄位 (例如沒有 history 或 goal 的卡片)
+export const normalizeCard = (card: Card): Card => {
+  const completedRounds = Array.isArray(card.completedRounds) ? card.completedRounds : [];
+  const createdAt = toIsoTimestamp(card.createdAt, card.id);
+  // 舊卡片沒有點數帳本，原本的點數 (= 目前蓋了幾格) 記成一筆期初點數
+  const openingPoints = card.points || card.stamps.filter(Boolean).length;
+  const pointLedger: PointEntry[] = Array.isArray(card.pointLedger)
+    ? card.pointLedger
+    : openingPoints > 0 ? [{ id: `opening-${card.id}`, amount: openingPoints, at: createdAt, source: 'opening' }] : [];
+  return {
+    ...card,
+    createdAt,
+    history: Array.isArray(card.history) ? card.history : [],
+    pointLedger,
+    points: getPointBalance(pointLedger),
+    goal: card.goal || card.stamps.length || DEFAULT_CARD_GOAL,
+    round: card.round || completedRounds.length + 1,
+    // 舊卡片的 id 就是建立時的 Date.now()
+    roundStartedAt: card.roundStartedAt || new Date(card.id).toISOString(),
+    completedRounds,
+    redemptions: Array.isArray(card.redemptions) ? card.redemptions : [],
+    groupIds: Array.isArray(card.groupIds) ? card.groupIds : [],
+    revertedBatchIds: Array.isArray(card.revertedBatchIds) ? card.revertedBatchIds : [],
+    stampIcon: STAMP_ICONS.includes(card.stampIcon) ? card.stampIcon : 'check',
+    profile: { ...EMPTY_PROFILE, ...card.profile },
+    revision: card.revision || 1,
+    updatedAt: card.updatedAt || createdAt
+  };
+};
+
+// 同一張卡的衝突只保留最新的一筆
+const mergeConflicts = (existing: CardConflict[], incoming: CardConflict[]): CardConflict[] => {
+  const incomingIds = new Set(incoming.map(conflict => conflict.local.id));
+  return [...existing.filter(conflict => !incomingIds.has(conflict.local.id)), ...incoming];
+};
+
+// 與修改前比較，內容有變動 (不是同一個物件) 的卡片 revision 加 1 並更新 updatedAt
+const touchCards = (previous: Card[], next: Card[]): Card[] => {
+  const previousById = new Map(previous.map(card => [card.id, card]));
+  const updatedAt = new Date().toISOString();
+  return next.map(card => {
+    const before = previousById.get(card.id);
+    if (!before || before === card) return card;
+    return { ...card, revision: Math.max(card.revision, before.revision) + 1, updatedAt };
+  });
+};
+
+const getThemeHex = (themeColor?: string): string => {
+  if (themeColor && CUSTOM_COLOR_PATTERN.test(themeColor)) return themeColor;
+  return (THEME_COLORS.find(color => color.value === themeColor) || THEME_COLORS[0]).hex;
+};
+
+const getRandomThemeColor = (): string =>
+  THEME_COLORS[Math.floor(Math.random() * THEME_COLORS.length)].value;
+
+// --- Undo / Redo ---
+
+const toSnapshot = (card: Card, keepAvatar: boolean): CardSnapshot => {
+  const { avatar, ...profile } = card.profile;
+  return { ...card, profile: keepAvatar ? { ...profile, avatar } : profile };
+};
+
+// 快照中沒有頭像時沿用目前卡片上的頭像
+const fromSnapshot = (snapshot: CardSnapshot, current?: Card): Card => ({
+  ...snapshot,
+  profile: { ...snapshot.profile, avatar: snapshot.profile.avatar ?? current?.profile.avatar ?? '' }
+});
+
+// 依 key 排序後序列化，比較內容時不受屬性順序影響
+const stableStringify = (value: unknown): string => JSON.stringify(value, (_key, item: unknown) =>
+  item && typeof item === 'object' && !Array.isArray(item)
+    ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+    : item
+);
+
+// revision 與 updatedAt 每次存檔都會改變，比較卡片內容時忽略
+const isSameCardContent = (card: Card, snapshot: CardSnapshot): boolean => {
+  const comparable = (value: CardSnapshot) => stableStringify({ ...value, revision: 0, updatedAt: '' });
+  return comparable(toSnapshot(card, snapshot.profile.avatar !== undefined)) === comparable(snapshot);
+};
+
+export const createHistoryEntry = (previous: HistoryState, next: HistoryState, action: CardAction): CardHistoryEntry | null => {
+  const previousById = new Map<number, Card>(previous.cards.map(card => [card.id, card]));
+  const nextIds = new Set(next.cards.map(card => card.id));
+  const snapshotChange = (cardId: number, before: Card | null, after: Card | null) => {
+    const keepAvatar = before?.profile.avatar !== after?.profile.avatar;
+    return {
+      cardId,
+      before: before && toSnapshot(before, keepAvatar),
+      after: after && toSnapshot(after, keepAvatar)
+    };
+  };
+  const changes = [
+    ...next.cards
+      .filter(card => previousById.get(card.id) !== card)
+      .map(card => snapshotChange(card.id, previousById.get(card.id) || null, card)),
+    ...previous.cards
+      .filter(card => !nextIds.has(card.id))
+      .map(card => snapshotChange(card.id, card, null))
+  ];
+
+  const previousLessons = new Map(previous.lessons.map(lesson => [lesson.id, lesson]));
+  const nextLessonIds = new Set(next.lessons.map(lesson => lesson.id));
+  const lessonChanges = [
+    ...next.lessons
+      .filter(lesson => previousLessons.get(lesson.id) !== lesson)
+      .map(lesson => ({ lessonId: lesson.id, before: previousLessons.get(lesson.id) || null, after: lesson })),
+    ...previous.lessons
+      .filter(lesson => !nextLessonIds.has(lesson.id))
+      .map(lesson => ({ lessonId: lesson.id, before: lesson, after: null }))
+  ];
+
+  const entry: CardHistoryEntry = { id: createId(), action, at: new Date().toISOString(), changes };
+  if (lessonChanges.length > 0) entry.lessonChanges = lessonChanges;
+  if (previous.groups !== next.groups) entry.groups = { before: previous.groups, after: next.groups };
+  if (previous.rewardTiers !== next.rewardTiers) entry.rewardTiers = { before: previous.rewardTiers, after: next.rewardTiers };
+  return changes.length > 0 || entry.lessonChanges || entry.groups || entry.rewardTiers ? entry : null;
+};
+
+// 套用前，目前的資料必須和紀錄中這一步之後 (復原) 或之前 (重做) 的狀態相同
+// 之後又被修改過 (例如在另一個分頁) 的話直接套用會蓋掉那些修改，因此拒絕
+export const canApplyHistoryEntry = (state: HistoryState, entry: CardHistoryEntry, direction: 'undo' | 'redo'): boolean => {
+  const expectedSide = direction === 'undo' ? 'after' : 'before';
+  const cardsById = new Map(state.cards.map(card => [card.id, card]));
+  const cardsMatch = entry.changes.every(change => {
+    const expected = change[expectedSide];
+    const current = cardsById.get(change.cardId);
+    return expected ? !!current && isSameCardContent(current, expected) : !current;
+  });
+  const lessonsById = new Map(state.lessons.map(lesson => [lesson.id, lesson]));
+  const lessonsMatch = (entry.lessonChanges || []).every(change => {
+    const expected = change[expectedSide];
+    const current = lessonsById.get(change.lessonId);
+    return expected ? !!current && stableStringify(current) === stableStringify(expected) : !current;
+  });
+  const groupsMatch = !entry.groups || stableStringify(state.groups) === stableStringify(entry.groups[expectedSide]);
+  const tiersMatch = !entry.rewardTiers || stableStringify(state.rewardTiers) === stableStringify(entry.rewardTiers[expectedSide]);
+  return cardsMatch && lessonsMatch && groupsMatch && tiersMatch;
+};
+
+// 將資料還原成紀錄中 undo (before) 或 redo (after) 的狀態
+export const applyHistoryEntry = (state: HistoryState, entry: CardHistoryEntry, direction: 'undo' | 'redo'): HistoryState => {
+  const targetSide = direction === 'undo' ? 'before' : 'after';
+  const cardsById = new Map(state.cards.map(card => [card.id, card]));
+  const cardTargets = new Map(entry.changes.map(change => {
+    const snapshot = change[targetSide];
+    return [change.cardId, snapshot && fromSnapshot(snapshot, cardsById.get(change.cardId))];
+  }));
+  const addedCards = [...cardTargets.values()].filter((card): card is Card => card !== null && !cardsById.has(card.id));
+  const cards = [
+    ...addedCards,
+    ...state.cards
+      .filter(card => cardTargets.get(card.id) !== null)
+      .map(card => cardTargets.get(card.id) || card)
+  ].sort((a, b) => b.id - a.id);
+
+  const lessonTargets = new Map((entry.lessonChanges || []).map(change => [change.lessonId, change[targetSide]]));
+  const existingLessonIds = new Set(state.lessons.map(lesson => lesson.id));
+  const lessons = [
+    ...state.lessons
+      .filter(lesson => lessonTargets.get(lesson.id) !== null)
+      .map(lesson => lessonTargets.get(lesson.id) || lesson),
+    ...[...lessonTargets.values()].filter((lesson): lesson is Lesson => lesson !== null && !existingLessonIds.has(lesson.id))
+  ];
+
+  return {
+    cards,
+    lessons,
+    groups: entry.groups ? entry.groups[targetSide] : state.groups,
+    rewardTiers: entry.rewardTiers ? entry.rewardTiers[targetSide] : state.rewardTiers
+  };
+};
+
+// 套用後仍有課程紀錄指向已移除的卡片 (例如復原「新增學生」時，這位學生之後又記錄了課程) 就不能套用
+export const hasOrphanLessons = (state: HistoryState): boolean => {
+  const cardIds = new Set(state.cards.map(card => card.id));
+  return state.lessons.some(lesson => !cardIds.has(lesson.cardId));
+};
+
+// 舊版的復原紀錄保存了完整的卡片 (包含頭像)，讀取時去掉沒有變動的頭像
+const compactHistoryAvatars = (history: CardHistory): CardHistory => {
+  const compact = (entries: CardHistoryEntry[]) => entries.map(entry => ({
+    ...entry,
+    changes: entry.changes.map(change => {
+      if (!change.before || !change.after || change.before.profile.avatar !== change.after.profile.avatar) return change;
+      const { avatar: _before, ...beforeProfile } = change.before.profile;
+      const { avatar: _after, ...afterProfile } = change.after.profile;
+      return { ...change, before: { ...change.before, profile: beforeProfile }, after: { ...change.after, profile: afterProfile } };
+    })
+  }));
+  return { undo: compact(history.undo), redo: compact(history.redo) };
+};
+
+// 永久刪除的卡片不能再被復原回來
+const removeCardsFromHistory = (history: CardHistory, cardIds: Set<number>): CardHistory => {
+  const prune = (entries: CardHistoryEntry[]) => entries
+    .map(entry => ({
+      ...entry,
+      changes: entry.changes.filter(change => !cardIds.has(change.cardId)),
+      lessonChanges: entry.lessonChanges?.filter(change => {
+        const lesson = change.before || change.after;
+        return !lesson || !cardIds.has(lesson.cardId);
+      })
+    }))
+    .filter(entry => entry.changes.length > 0 || entry.lessonChanges?.length || entry.groups || entry.rewardTiers);
+  return { undo: prune(history.undo), redo: prune(history.redo) };
+};
+
+// --- Stamp Icons ---
+// 印章圖案以 40x40 座標的 SVG path 描述，畫面上的 StampMark 與匯出圖片共用同一份資料
+interface StampIconPart {
+  d: string;
+  stroke?: number;   // 有值時為線條，否則填滿
+  white?: boolean;   // 以白色繪製 (例如貓咪的眼睛)，否則使用卡片顏色
+}
+
+const circlePath = (cx: number, cy: number, rx: number, ry = rx): string =>
+  `M${cx - rx} ${cy} a${rx} ${ry} 0 1 0 ${rx * 2} 0 a${rx} ${ry} 0 1 0 ${-rx * 2} 0 Z`;
+
+const STAMP_ICON_PARTS: Record<StampIcon, StampIconPart[]> = {
+  check: [{ d: 'M10 20 L16 26 L30 12', stroke: 4 }],
+  star: [{ d: 'M20 9 L23.1 16.8 L31.4 17.3 L24.9 22.6 L27.1 30.7 L20 26.2 L12.9 30.7 L15.1 22.6 L8.6 17.3 L16.9 16.8 Z' }],
+  heart: [{ d: 'M20 29 C12 23 9 19.5 9 15.5 C9 12.5 11.3 10.5 14 10.5 C16.5 10.5 18.5 12 20 14 C21.5 12 23.5 10.5 26 10.5 C28.7 10.5 31 12.5 31 15.5 C31 19.5 28 23 20 29 Z' }],
+  paw: [
+    { d: circlePath(20, 24, 6.5, 5.5) },
+    { d: circlePath(12.5, 17, 2.6) },
+    { d: circlePath(17, 12.5, 2.6) },
+    { d: circlePath(23, 12.5, 2.6) },
+    { d: circlePath(27.5, 17, 2.6) }
+  ],
+  cat: [
+    { d: 'M12 28 Q10 20 12 14 L14.5 9 L18 13 Q20 12.5 22 13 L25.5 9 L28 14 Q30 20 28 28 Q20 31 12 28 Z' },
+    { d: circlePath(16.5, 20, 1.4), white: true },
+    { d: circlePath(23.5, 20, 1.4), white: true },
+    { d: 'M18.5 24 Q20 25.5 21.5 24', stroke: 1.2, white: true }
+  ]
+};
+
+// 最後一次蓋章的時間 (不含取消蓋章)，沒有蓋過章則為 null
+const getLastStampAt = (card: Card): string | null =>
+  card.history.reduce<string | null>(
+    (latest, event) => event.stamped && (!latest || event.at > latest) ? event.at : latest,
+    null
+  );
+
+// 剩下的格數不到兩成 (至少 2 格) 就算快集滿
+const isNearComplete = (card: Card): boolean => {
+  const remaining = card.goal - getStampedCount(card);
+  return remaining > 0 && remaining <= Math.max(2, Math.ceil(card.goal * 0.2));
+};
+
+const getTrashExpiry = (card: Card, retentionDays: number): number =>
+  new Date(card.deletedAt!).getTime() + retentionDays * DAY_MS;
+
+const getExpiredTrashIds = (cards: Card[], retentionDays: number, now: number = Date.now()): Set<number> =>
+  new Set(cards.filter(card => card.deletedAt && getTrashExpiry(card, retentionDays) <= now).map(card => card.id));
+
+const isInactive = (card: Card, now: number = Date.now()): boolean => {
+  const lastActivity = getLastStampAt(card) ?? card.createdAt;
+  return now - new Date(lastActivity).getTime() > INACTIVE_DAYS * DAY_MS;
+};
+
+// 搜尋用的正規化：忽略大小寫、空白、全形/半形，以及拼音或注音的聲調符號
+// (中文字轉拼音需要完整字典，目前不支援)
+const normalizeSearchText = (text: string): string =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f\u02ca\u02c7\u02cb\u02d9]/g, '')
+    .replace(/\s+/g, '')
+    .toLowerCase();
+
+const nameCollator = new Intl.Collator('zh-TW');
+
+const filterAndSortCards = (cards: Card[], query: string, prefs: RecordsListPrefs): Card[] => {
+  const normalizedQuery = normalizeSearchText(query);
+  const now = Date.now();
+
+  const filtered = cards.filter(card => {
+    if (normalizedQuery && ![card.name, card.profile.nickname].some(text => normalizeSearchText(text).includes(normalizedQuery))) return false;
+    if (prefs.filter === 'nearComplete') return isNearComplete(card);
+    if (prefs.filter === 'inactive') return isInactive(card, now);
+    return true;
+  });
+
+  switch (prefs.sort) {
+    case 'name':
+      return filtered.sort((a, b) => nameCollator.compare(a.name, b.name));
+    case 'points':
+      return filtered.sort((a, b) => b.points - a.points);
+    case 'activity':
+      return filtered.sort((a, b) => (getLastStampAt(b) ?? '').localeCompare(getLastStampAt(a) ?? ''));
+    default:
+      return filtered.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+};
+
+// 一週從星期一開始
+const getWeekStart = (date: Date): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - (start.getDay() + 6) % 7);
+  return start;
+};
+
+const DASHBOARD_WEEKS = 8;
+const ACTIVITY_WINDOW_DAYS = 30;
+
+// 目前仍然有效的蓋章紀錄：之後被取消或復原的章不算，取消時扣掉的是那一格最後一次蓋的章
+const getNetStampEvents = (card: Card): StampEvent[] => {
+  const latestBySlot = new Map<string, StampEvent>();
+  const undone = new Set<string>();
+  card.history.forEach(event => {
+    const slot = `${event.round}:${event.index}`;
+    if (event.stamped) {
+      latestBySlot.set(slot, event);
+      return;
+    }
+    const stamp = latestBySlot.get(slot);
+    if (stamp) {
+      undone.add(stamp.id);
+      latestBySlot.delete(slot);
+    }
+  });
+  return card.history.filter(event => event.stamped && !undone.has(event.id));
+};
+
+const computeDashboardStats = (cards: Card[], now: Date = new Date()): DashboardStats => {
+  const netStamps = new Map(cards.map(card => [card.id, getNetStampEvents(card)]));
+  const stampEvents = cards.flatMap(card => netStamps.get(card.id)!.map(event => ({ card, event })));
+
+  const currentWeek = getWeekStart(now);
+  const weeklyStamps = Array(DASHBOARD_WEEKS).fill(null).map((_, i) => {
+    const weekStart = new Date(currentWeek);
+    weekStart.setDate(weekStart.getDate() - (DASHBOARD_WEEKS - 1 - i) * 7);
+    return { weekStart, count: 0 };
+  });
+  stampEvents.forEach(({ event }) => {
+    const weekStart = getWeekStart(new Date(event.at)).getTime();
+    const week = weeklyStamps.find(w => w.weekStart.getTime() === weekStart);
+    if (week) week.count += 1;
+  });
+
+  // 最近 30 天的蓋章數
+  const windowStart = now.getTime() - ACTIVITY_WINDOW_DAYS * DAY_MS;
+  const activity = cards
+    .map(card => ({
+      card,
+      count: netStamps.get(card.id)!.filter(event => new Date(event.at).getTime() >= windowStart).length
+    }))
+    .sort((a, b) => b.count - a.count);
+  const mostActive = activity.filter(a => a.count > 0).slice(0, 3);
+
+  const completionDays = cards
+    .flatMap(card => card.completedRounds)
+    .filter(round => round.startedAt && round.completedAt)
+    .map(round => (new Date(round.completedAt).getTime() - new Date(round.startedAt).getTime()) / DAY_MS);
+
+  return {
+    weeklyStamps,
+    mostActive,
+    // 學生不多時兩邊可能重複，已經列在最活躍的學生不再列入最需要鼓勵
+    leastActive: activity.slice(mostActive.length).slice(-3).reverse(),
+    averageDaysToComplete: completionDays.length > 0
+      ? completionDays.reduce((sum, days) => sum + days, 0) / completionDays.length
+      : null,
+    inactiveCards: cards.filter(card => isInactive(card, now.getTime()))
+  };
+};
+
+// --- Badges ---
+
+// 最近連續出席的課堂數 (遇到缺席就中斷)
+const getLessonStreak = (lessons: Lesson[]): number => {
+  const sorted = [...lessons].sort((a, b) => b.date.localeCompare(a.date));
+  const firstAbsent = sorted.findIndex(lesson => !lesson.attended);
+  return firstAbsent === -1 ? sorted.length : firstAbsent;
+};
+
+// 這個月到目前為止的每一週都有蓋章時為 1，否則為 0
+// 月初不是週一時，第一週有一部分在上個月 (那幾天的章不算)，所以從第一個完整的週開始檢查
+// 還沒有完整的週時 (例如月初的前幾天)，這幾天要有蓋章；之後被取消或復原的章不算
+const getEveryWeekThisMonth = (card: Card, now: Date): number => {
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+  const stampedWeeks = new Set(
+    getNetStampEvents(card)
+      .filter(event => new Date(event.at) >= monthStart && new Date(event.at) <= now)
+      .map(event => getWeekStart(new Date(event.at)).getTime())
+  );
+  const currentWeek = getWeekStart(now).getTime();
+  const firstFullWeek = getWeekStart(monthStart);
+  if (firstFullWeek < monthStart) firstFullWeek.setDate(firstFullWeek.getDate() + 7);
+  if (firstFullWeek.getTime() > currentWeek) return stampedWeeks.has(currentWeek) ? 1 : 0;
+  for (let week = firstFullWeek; week.getTime() <= currentWeek; week.setDate(week.getDate() + 7)) {
+    if (!stampedWeeks.has(week.getTime())) return 0;
+  }
+  return 1;
+};
+
+const BADGE_METRICS: Record<BadgeMetric, (card: Card, lessons: Lesson[], now: Date) => number> = {
+  lessonStreak: (_card, lessons) => getLessonStreak(lessons),
+  completedCards: (card) => card.completedRounds.length,
+  totalStamps: (card) => card.completedRounds.reduce((sum, round) => sum + round.goal, 0) + getStampedCount(card),
+  everyWeekThisMonth: (card, _lessons, now) => getEveryWeekThisMonth(card, now)
+};
+
+// lessons 只需要這位學生的課程紀錄
+const computeBadges = (card: Card, lessons: Lesson[], now: Date = new Date()): BadgeProgress[] =>
+  BADGE_RULES.map(rule => {
+    const value = BADGE_METRICS[rule.metric](card, lessons, now);
+    return { rule, value, earned: value >= rule.threshold };
+  });
+
+// 分享連結中的徽章 id 轉回顯示用的資料；不認得的 id (較新版本才有的徽章) 直接略過
+const getSharedBadges = (badgeIds: string[]): BadgeProgress[] =>
+  BADGE_RULES
+    .filter(rule => badgeIds.includes(rule.id))
+    .map(rule => ({ rule, value: rule.threshold, earned: true }));
+
+const isRewardRedeemed = (card: Card, tierId: string, round: number): boolean =>
+  card.redemptions.some(r => r.tierId === tierId && r.round === round);
+
+// 已達成但尚未兌換的獎勵 (包含已封存的卡片)
+const getPendingRewards = (card: Card, tiers: RewardTier[]): { tier: RewardTier; round: number }[] => {
+  const pending: { tier: RewardTier; round: number }[] = [];
+  const stampedCount = card.stamps.filter(Boolean).length;
+
+  card.completedRounds.forEach(completed => {
+    tiers
+      .filter(tier => tier.stamps <= completed.goal && !isRewardRedeemed(card, tier.id, completed.round))
+      .forEach(tier => pending.push({ tier, round: completed.round }));
+  });
+  tiers
+    .filter(tier => tier.stamps <= stampedCount && !isRewardRedeemed(card, tier.id, card.round))
+    .forEach(tier => pending.push({ tier, round: card.round }));
+
+  return pending.sort((a, b) => a.round - b.round || a.tier.stamps - b.tier.stamps);
+};
+
+// 目前這張卡可用的獎勵，供分享連結與學生端顯示
+const getSharedRewards = (card: Card, tiers: RewardTier[]): SharedReward[] =>
+  tiers
+    .filter(tier => tier.stamps <= card.goal)
+    .sort((a, b) => a.stamps - b.stamps)
+    .map(tier => ({
+      stamps: tier.stamps,
+      label: tier.label,
+      redeemed: isRewardRedeemed(card, tier.id, card.round)
+    }));
+
+// 目前這張卡蓋了幾格 (與點數餘額不同，每格不論種類都只算一格)
+const getStampedCount = (card: Pick<Card, 'stamps'>): number => card.stamps.filter(Boolean).length;
+
+const getPointBalance = (ledger: PointEntry[]): number =>
+  ledger.reduce((sum, entry) => sum + entry.amount, 0);
+
+// 目前這張卡某一格蓋的是哪一種章 (依最後一次在這格蓋章的紀錄)
+const getSlotStampType = (card: Card, index: number): StampType => {
+  for (let i = card.history.length - 1; i >= 0; i--) {
+    const event = card.history[i];
+    if (event.index === index && event.stamped && event.round === card.round) {
+      return event.stampType || DEFAULT_STAMP_TYPE;
+    }
+  }
+  return DEFAULT_STAMP_TYPE;
+};
+
+const addPointEntry = (card: Card, entry: Omit<PointEntry, 'id' | 'at'> & { at?: string }): Card => {
+  const pointLedger = [...card.pointLedger, { id: createId(), at: new Date().toISOString(), ...entry }];
+  return { ...card, pointLedger, points: getPointBalance(pointLedger) };
+};
+
+// 老師手動加減點，amount 可以是負數
+const adjustCardPoints = (card: Card, amount: number, reason: string): Card =>
+  addPointEntry(card, { amount, source: 'adjustment', reason });
+
+// 鼓勵文字依目前這張卡的進度與下一個尚未兌換的獎勵產生 (語言由 useEncouragement 決定)
+const getEncouragementRequest = (
+  card: SharedCard,
+  rewards: SharedReward[],
+  completed: boolean = false
+): Omit<EncouragementRequest, 'locale'> => {
+  const goal = card.goal || DEFAULT_CARD_GOAL;
+  const stamped = (card.stamps || []).filter(Boolean).length;
+  const nextReward = rewards.find(reward => !reward.redeemed && reward.stamps > stamped);
+  return {
+    name: card.name || '',
+    stamped,
+    goal,
+    completed,
+    nextReward: nextReward ? { stamps: nextReward.stamps, label: nextReward.label } : null
+  };
+};
+
+// 切換某一格的蓋章狀態；若剛好集滿，則封存這張卡並自動開始新的一張
+// at 未指定時為現在 (例如課程的章記在上課當天)
+type StampDetails = Partial<Pick<StampEvent, 'reason' | 'batchId' | 'lessonId' | 'stampType' | 'at'>>;
+
+export const applyStampToggle = (
+  card: Card,
+  index: number,
+  source: StampEventSource,
+  details: StampDetails = {}
+): { card: Card; completed: boolean } => {
+  const now = details.at || new Date().toISOString();
+  const newStamps = [...card.stamps];
+  newStamps[index] = !newStamps[index];
+  // 取消蓋章時扣回這一格原本的點數
+  const stampType = newStamps[index] ? details.stampType || DEFAULT_STAMP_TYPE : getSlotStampType(card, index);
+  const event: StampEvent = {
+    id: createId(),
+    index,
+    stamped: newStamps[index],
+    at: now,
+    source,
+    ...details,
+    stampType,
+    round: card.round
+  };
+  const history = [...card.history, event];
+  const { pointLedger, points } = addPointEntry(card, {
+    amount: event.stamped ? STAMP_TYPE_POINTS[stampType] : -STAMP_TYPE_POINTS[stampType],
+    at: now,
+    source: 'stamp',
+    reason: details.reason,
+    stampEventId: event.id,
+    stampType
+  });
+
+  if (newStamps.every(Boolean)) {
+    const completedRound: CompletedRound = {
+      round: card.round,
+      goal: card.goal,
+      startedAt: card.roundStartedAt,
+      completedAt: now
+    };
+    return {
+      card: {
+        ...card,
+        stamps: Array(card.goal).fill(false),
+        points,
+        pointLedger,
+        history,
+        round: card.round + 1,
+        roundStartedAt: now,
+        completedRounds: [...card.completedRounds, completedRound]
+      },
+      completed: true
+    };
+  }
+
+  return {
+    card: { ...card, stamps: newStamps, points, pointLedger, history },
+    completed: false
+  };
+};
+
+// 在下一個空格蓋章 (集滿時會自動開始新的一張卡)
+const addStamp = (
+  card: Card,
+  source: StampEventSource,
+  details: StampDetails = {}
+): { card: Card; completed: boolean } => {
+  const index = card.stamps.findIndex(isStamped => !isStamped);
+  return applyStampToggle(card, index, source, details);
+};
+
+// 依 batchId 彙整課堂蓋章紀錄，新的在前
+const getStampBatches = (cards: Card[]): StampBatch[] => {
+  const batches = new Map<string, StampBatch>();
+
+  cards.forEach(card => {
+    card.history.forEach(event => {
+      if (!event.batchId) return;
+      let batch = batches.get(event.batchId);
+      if (!batch) {
+        batch = { id: event.batchId, at: event.at, entries: [], reverted: false };
+        batches.set(event.batchId, batch);
+      }
+      if (event.source === 'revert') {
+        batch.reverted = true;
+        return;
+      }
+      if (event.at < batch.at) batch.at = event.at;
+      if (event.reason) batch.reason = event.reason;
+      const entry = batch.entries.find(e => e.cardId === card.id);
+      if (entry) {
+        entry.count += 1;
+      } else {
+        batch.entries.push({ cardId: card.id, name: card.name, count: 1 });
+      }
+    });
+  });
+
+  cards.forEach(card => {
+    card.revertedBatchIds.forEach(batchId => {
+      const batch = batches.get(batchId);
+      if (batch) batch.reverted = true;
+    });
+  });
+
+  return [...batches.values()].sort((a, b) => b.at.localeCompare(a.at));
+};
+
+// 這一格目前的章是不是這一筆紀錄蓋的 (已封存的卡片，或之後被取消又重新蓋過的格子都不是)
+const isCurrentStamp = (card: Card, event: StampEvent): boolean => {
+  if (event.round !== card.round || !card.stamps[event.index]) return false;
+  const latest = [...card.history].reverse().find(e => e.index === event.index && e.round === card.round && e.stamped);
+  return latest?.id === event.id;
+};
+
+// 復原某次課堂蓋章：取消該批次在目前這張卡上蓋的章
+// 已封存 (集滿) 的卡片，或之後被取消又重新蓋過的格子不會被更動；即使全部略過，這個批次仍記錄為已復原
+export const revertStampBatch = (card: Card, batchId: string): { card: Card; skipped: number } => {
+  let updated = card;
+  let skipped = 0;
+
+  card.history
+    .filter(event => event.batchId === batchId && event.source === 'session' && event.stamped)
+    .forEach(event => {
+      if (isCurrentStamp(updated, event)) {
+        updated = applyStampToggle(updated, event.index, 'revert', { batchId }).card;
+      } else {
+        skipped += 1;
+      }
+    });
+
+  if (!updated.revertedBatchIds.includes(batchId)) {
+    updated = { ...updated, revertedBatchIds: [...updated.revertedBatchIds, batchId] };
+  }
+  return { card: updated, skipped };
+};
+
+// 刪除課程時收回這堂課給的章；已封存 (集滿) 或之後被改過的格子不會被更動
+const revertLessonStamps = (card: Card, lessonId: string): Card =>
+  card.history
+    .filter(event => event.lessonId === lessonId && event.source === 'lesson' && event.stamped)
+    .reduce((updated, event) =>
+      isCurrentStamp(updated, event) ? applyStampToggle(updated, event.index, 'revert', { lessonId }).card : updated,
+    card);
+
+// 課程的章記在上課當天，時間沿用現在的時間，讓同一天的紀錄仍依先後排序
+const getLessonStampTime = (date: string): string => {
+  const at = fromDateKey(date);
+  const now = new Date();
+  at.setHours(now.getHours(), now.getMinutes(), now.getSeconds(), now.getMilliseconds());
+  return at.toISOString();
+};
+
+// --- Share Link Signing ---
+// 私鑰只存在老師的裝置上；連結附上公鑰與 ECDSA 簽章，學生端即可驗證內容是否被修改
+
+const SIGNING_ALGORITHM: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNATURE_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+const LEGACY_SIGNING_KEY_STORAGE_KEY = 'shareSigningKey';
+// 舊版會自動記住第一次看到的金鑰 (可能是偽造的)，已不再使用
+const LEGACY_TRUSTED_KEY_STORAGE_KEY = 'trustedShareKey';
+// 家長手動輸入、由老師另外提供的金鑰指紋
+const TUTOR_FINGERPRINT_STORAGE_KEY = 'tutorKeyFingerprint';
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// 金鑰指紋：公鑰 SHA-256 的前 16 碼，每 4 碼以 - 分隔，方便家長與老師比對
+const getKeyFingerprint = async (publicKeyBytes: Uint8Array): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', publicKeyBytes));
+  const hex = Array.from(digest.slice(0, 8), b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+  return hex.match(/.{4}/g)!.join('-');
+};
+
+// 比對指紋時忽略大小寫、空白與分隔符號
+const normalizeFingerprint = (value: string): string => value.toUpperCase().replace(/[^0-9A-F]/g, '');
+
+// 讀取老師的簽章金鑰，沒有的話就產生一組新的並存起來
+// 金鑰以不可匯出的 CryptoKey 存在 IndexedDB；舊版存在 localStorage 的 JWK 會搬移過去
+const getSigningKeyPair = async (): Promise<CryptoKeyPair> => {
+  const stored = await loadSetting('signingKey');
+  if (stored) return stored;
+
+  let keyPair: CryptoKeyPair;
+  const legacy = localStorage.getItem(LEGACY_SIGNING_KEY_STORAGE_KEY);
+  if (legacy) {
+    const { privateKey, publicKey } = JSON.parse(legacy) as { privateKey: JsonWebKey; publicKey: JsonWebKey };
+    keyPair = {
+      privateKey: await crypto.subtle.importKey('jwk', privateKey, SIGNING_ALGORITHM, false, ['sign']),
+      publicKey: await crypto.subtle.importKey('jwk', publicKey, SIGNING_ALGORITHM, true, ['verify'])
+    };
+  } else {
+    keyPair = await crypto.subtle.generateKey(SIGNING_ALGORITHM, false, ['sign', 'verify']);
+  }
+
+  await saveSetting('signingKey', keyPair);
+  localStorage.removeItem(LEGACY_SIGNING_KEY_STORAGE_KEY);
+  return keyPair;
+};
+
+// 為編碼後的卡片資料簽章，回傳網址用的 sig 與 k 參數
+const signCardData = async (
+  encoded: string
+): Promise<{ signature: string; publicKey: string; keyFingerprint: string }> => {
+  const { privateKey, publicKey } = await getSigningKeyPair();
+  const signature = await crypto.subtle.sign(SIGNATURE_ALGORITHM, privateKey, new TextEncoder().encode(encoded));
+  const publicKeyBytes = new Uint8Array(await crypto.subtle.exportKey('raw', publicKey));
+  return {
+    signature: toBase64Url(new Uint8Array(signature)),
+    publicKey: toBase64Url(publicKeyBytes),
+    keyFingerprint: await getKeyFingerprint(publicKeyBytes)
+  };
+};
+
+// --- Helper Functions for Sharing (Optimized) ---
+
+// V3 格式：第一個位元組是版本號，之後是一連串 [tag, 長度 (varint), 內容] 欄位
+// 解碼時會略過不認得的 tag，之後新增欄位不會讓舊版程式無法開啟連結
+const SHARE_FORMAT_VERSION = 3;
+
+const ShareField = {
+  Name: 1,        // UTF-8 字串
+  Stamps: 2,      // varint 格數 + 蓋章位元組 (每格 1 bit)
+  Color: 3,       // THEME_COLORS 的索引 (自訂顏色時為 0，供舊版程式顯示)
+  CreatedAt: 4,   // UTF-8 字串
+  Completed: 5,   // varint 已完成張數
+  Reward: 6,      // varint 格數 + 1 byte 是否已兌換 + UTF-8 名稱，可重複出現
+  Locale: 7,      // UTF-8 語系代碼 (例如 en)
+  CustomColor: 8, // 3 bytes RGB，會取代 Color
+  StampIcon: 9,   // STAMP_ICONS 的索引
+  Points: 10,     // zigzag varint 點數餘額 (可能為負數)；舊連結沒有此欄位，點數等於蓋了幾格
+  Badge: 11       // UTF-8 徽章 id，可重複出現
+} as const;
+
+const writeVarint = (out: number[], value: number) => {
+  let remaining = Math.max(0, Math.floor(value));
+  while (remaining >= 0x80) {
+    out.push((remaining % 0x80) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  out.push(remaining);
+};
+
+const readVarint = (bytes: Uint8Array, offset: number): { value: number; offset: number } => {
+  let value = 0;
+  let multiplier = 1;
+  let cursor = offset;
+  while (cursor < bytes.length) {
+    const byte = bytes[cursor++];
+    value += (byte & 0x7f) * multiplier;
+    if ((byte & 0x80) === 0) return { value, offset: cursor };
+    multiplier *= 0x80;
+  }
+  throw new Error('Truncated varint');
+};
+
+// zigzag：0, -1, 1, -2 ... 對應到 0, 1, 2, 3 ...，讓負數也能用 varint 表示
+const toZigzag = (value: number): number => value < 0 ? -value * 2 - 1 : value * 2;
+const fromZigzag = (value: number): number => value % 2 === 1 ? -(value + 1) / 2 : value / 2;
+
+const writeField = (out: number[], tag: number, value: ArrayLike<number>) => {
+  out.push(tag);
+  writeVarint(out, value.length);
+  for (let i = 0; i < value.length; i++) out.push(value[i]);
+};
+
+const encodeStamps = (stamps: boolean[]): number[] => {
+  const out: number[] = [];
+  writeVarint(out, stamps.length);
+  const bitfield = new Array(Math.ceil(stamps.length / 8)).fill(0);
+  stamps.forEach((isStamped, i) => {
+    if (isStamped) bitfield[i >> 3] |= 1 << (i & 7);
+  });
+  return [...out, ...bitfield];
+};
+
+// 分享連結中的格數與完成張數上限；連結可以被任意竄改 (在驗證簽章前就會解碼)，避免建立超大的陣列讓頁面卡住
+const MAX_SHARED_COUNT = 1000;
+
+const readSharedCount = (value: unknown): number => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > MAX_SHARED_COUNT) {
+    throw new Error('Invalid count in share link');
+  }
+  return value;
+};
+
+const decodeStamps = (bytes: Uint8Array): boolean[] => {
+  const { value, offset } = readVarint(bytes, 0);
+  const count = readSharedCount(value);
+  // 每 8 格一個位元組，格數不能超過實際帶的資料
+  if (count > (bytes.length - offset) * 8) throw new Error('Truncated stamp bitfield');
+  return Array(count).fill(false).map((_, i) => ((bytes[offset + (i >> 3)] ?? 0) >> (i & 7) & 1) === 1);
+};
+
+// 將卡片資料編碼成 URL-safe 的 Base64 字串 (V3)
+export const encodeCardData = (card: Card, rewards: SharedReward[] = [], badgeIds: string[] = []): string => {
+  const encoder = new TextEncoder();
+  // 只寫入下列欄位；card.profile (照片、家長聯絡方式、備註等) 絕不會放進分享連結
+  const colorIndex = THEME_COLORS.findIndex(color => color.value === card.themeColor);
+  const out: number[] = [SHARE_FORMAT_VERSION];
+
+  writeField(out, ShareField.Name, encoder.encode(card.name));
+  writeField(out, ShareField.Stamps, encodeStamps(card.stamps));
+  writeField(out, ShareField.Color, [colorIndex >= 0 ? colorIndex : 0]);
+  // 只需要日期部分 (YYYY-MM-DD)
+  writeField(out, ShareField.CreatedAt, encoder.encode(card.createdAt.slice(0, 10)));
+  if (card.completedRounds.length > 0) {
+    const completed: number[] = [];
+    writeVarint(completed, card.completedRounds.length);
+    writeField(out, ShareField.Completed, completed);
+  }
+  rewards.forEach(reward => {
+    const value: number[] = [];
+    writeVarint(value, reward.stamps);
+    value.push(reward.redeemed ? 1 : 0, ...encoder.encode(reward.label));
+    writeField(out, ShareField.Reward, value);
+  });
+  if (card.locale) {
+    writeField(out, ShareField.Locale, encoder.encode(card.locale));
+  }
+  if (CUSTOM_COLOR_PATTERN.test(card.themeColor)) {
+    const rgb = card.themeColor.slice(1).match(/../g)!.map(hex => parseInt(hex, 16));
+    writeField(out, ShareField.CustomColor, rgb);
+  }
+  if (card.stampIcon !== 'check') {
+    writeField(out, ShareField.StampIcon, [STAMP_ICONS.indexOf(card.stampIcon)]);
+  }
+  const points: number[] = [];
+  writeVarint(points, toZigzag(card.points));
+  writeField(out, ShareField.Points, points);
+  badgeIds.forEach(badgeId => writeField(out, ShareField.Badge, encoder.encode(badgeId)));
+
+  return toBase64Url(Uint8Array.from(out));
+};
+
+// 依照已完成張數產生唯讀用的封存紀錄 (學生端只需要張數)
+const placeholderRounds = (count: number, goal: number): CompletedRound[] =>
+  Array(count).fill(null).map((_, i) => ({ round: i + 1, goal, startedAt: '', completedAt: '' }));
+
+const parseCardDataV3 = (bytes: Uint8Array): SharedCard => {
+  const decoder = new TextDecoder();
+  const card: SharedCard = { id: 0, name: '', stamps: [], themeColor: THEME_COLORS[0].value, createdAt: '', rewards: [], badges: [] };
+  let customColor: string | null = null;
+  let completedCount = 0;
+  let points: number | null = null;
+  let offset = 1;
+
+  while (offset < bytes.length) {
+    const tag = bytes[offset++];
+    const length = readVarint(bytes, offset);
+    const value = bytes.subarray(length.offset, length.offset + length.value);
+    offset = length.offset + length.value;
+
+    switch (tag) {
+      case ShareField.Name:
+        card.name = decoder.decode(value);
+        break;
+      case ShareField.Stamps:
+        card.stamps = decodeStamps(value);
+        break;
+      case ShareField.Color:
+        card.themeColor = (THEME_COLORS[value[0]] || THEME_COLORS[0]).value;
+        break;
+      case ShareField.CreatedAt:
+        card.createdAt = decoder.decode(value);
+        break;
+      case ShareField.Completed:
+        completedCount = readSharedCount(readVarint(value, 0).value);
+        break;
+      case ShareField.Reward: {
+        const stamps = readVarint(value, 0);
+        card.rewards!.push({
+          stamps: stamps.value,
+          redeemed: value[stamps.offset] === 1,
+          label: decoder.decode(value.subarray(stamps.offset + 1))
+        });
+        break;
+      }
+      case ShareField.CustomColor:
+        customColor = '#' + Array.from(value.subarray(0, 3), byte => byte.toString(16).padStart(2, '0')).join('');
+        break;
+      case ShareField.StampIcon:
+        card.stampIcon = STAMP_ICONS[value[0]] || 'check';
+        break;
+      case ShareField.Points:
+        points = fromZigzag(readVarint(value, 0).value);
+        break;
+      case ShareField.Badge:
+        card.badges!.push(decoder.decode(value));
+        break;
+      case ShareField.Locale: {
+        const locale = decoder.decode(value);
+        // 不支援的語系就依開啟的裝置決定
+        if (isLocale(locale)) card.locale = locale;
+        break;
+      }
+      default:
+        // 較新版本才有的欄位，直接略過
+        break;
+    }
+  }
+
+  if (customColor && CUSTOM_COLOR_PATTERN.test(customColor)) {
+    card.themeColor = customColor;
+  }
+  const stamps = card.stamps!;
+  card.goal = stamps.length || DEFAULT_CARD_GOAL;
+  card.points = points ?? stamps.filter(Boolean).length;
+  card.completedRounds = placeholderRounds(completedCount, card.goal);
+  return card;
+};
+
+// 舊版連結：btoa(encodeURIComponent(JSON))，V2 為陣列、V1 為物件
+const parseLegacyCardData = (encoded: string): SharedCard => {
+  // 舊連結中的 '+' 可能在網址中被轉成空白
+  const json = decodeURIComponent(atob(encoded.replace(/ /g, '+')));
+  const data = JSON.parse(json);
+
+  if (Array.isArray(data)) {
+    // 較舊的連結沒有 goal 與 completedCount，預設為 30 格
+    const [name, stampsBitmap, colorIndex, createdAt, rawGoal = DEFAULT_CARD_GOAL, rawCompletedCount = 0, rewardData = []] = data;
+    const goal = readSharedCount(rawGoal);
+    const completedCount = readSharedCount(rawCompletedCount);
+    const stamps = Array(goal).fill(false).map((_, i) => Math.floor(stampsBitmap / 2 ** i) % 2 === 1);
+    const points = stamps.filter(Boolean).length;
+    const themeColor = (THEME_COLORS[colorIndex] || THEME_COLORS[0]).value;
+    const completedRounds = placeholderRounds(completedCount, goal);
+
+    const rewards: SharedReward[] = (rewardData as [number, string, number][]).map(([stamps, label, redeemed]) => ({
+      stamps,
+      label,
+      redeemed: redeemed === 1
+    }));
+
+    return { name, points, stamps, themeColor, createdAt, goal, completedRounds, rewards, id: 0 };
+  }
+
+  return {
+    name: data.n,
+    points: data.p,
+    stamps: data.s,
+    goal: Array.isArray(data.s) ? data.s.length : DEFAULT_CARD_GOAL,
+    themeColor: data.t,
+    createdAt: data.d,
+    id: 0
+  };
+};
+
+// 解碼 (不含簽章驗證)；依第一個位元組判斷是 V3 或舊版連結
+export const parseCardData = (encoded: string): SharedCard | null => {
+  try {
+    const bytes = fromBase64Url(encoded.replace(/ /g, '+'));
+    if (bytes[0] === SHARE_FORMAT_VERSION) {
+      return parseCardDataV3(bytes);
+    }
+    // 舊版內容是 encodeURIComponent 後的文字，開頭一定是 '%'
+    return parseLegacyCardData(encoded);
+  } catch (e) {
+    console.error("Failed to decode card data", e);
+    return null;
+  }
+};
+
+// 解碼並驗證分享連結；signature 與 publicKey 來自網址的 sig 與 k 參數
+export const decodeCardData = async (
+  encoded: string,
+  signature?: string | null,
+  publicKey?: string | null
+): Promise<SharedCard | null> => {
+  const card = parseCardData(encoded);
+  if (!card) return null;
+
+  if (!signature || !publicKey) {
+    return { ...card, verification: 'unsigned' };
+  }
+
+  try {
+    const keyBytes = fromBase64Url(publicKey);
+    const key = await crypto.subtle.importKey('raw', keyBytes, SIGNING_ALGORITHM, false, ['verify']);
+    const isValid = await crypto.subtle.verify(
+      SIGNATURE_ALGORITHM,
+      key,
+      fromBase64Url(signature),
+      new TextEncoder().encode(encoded)
+    );
+    const keyFingerprint = await getKeyFingerprint(keyBytes);
+    // 公鑰隨連結一起傳送，簽章正確只代表內容沒有在簽章後被改過
+    // 是不是老師的金鑰，由 VerificationBadge 與老師另外提供的指紋比對
+    localStorage.removeItem(LEGACY_TRUSTED_KEY_STORAGE_KEY);
+
+    return { ...card, verification: isValid ? 'signed' : 'modified', keyFingerprint };
+  } catch (e) {
+    console.error("Failed to verify card signature", e);
+    return { ...card, verification: 'modified' };
+  }
+};
+
+// --- Backup Export / Import ---
+
+const BACKUP_APP_ID = 'student-rewards';
+
+// 備份檔格式的每一次變更都是一個依序執行的 migration，舊版的備份先升級到目前的格式再驗證
+interface BackupMigration {
+  version: number;
+  description: string;
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+const BACKUP_MIGRATIONS: BackupMigration[] = [
+  {
+    version: 2,
+    description: '補上較早備份沒有的獎勵設定、分組與課程紀錄，並把舊版日期格式 (例如 "2025/1/5") 轉成 ISO 時間戳記',
+    migrate: data => ({
+      ...data,
+      rewardTiers: data.rewardTiers ?? [],
+      groups: data.groups ?? [],
+      lessons: data.lessons ?? [],
+      cards: Array.isArray(data.cards)
+        ? data.cards.map(card => isRecord(card) && typeof card.id === 'number' && typeof card.createdAt === 'string'
+          ? { ...card, createdAt: toIsoTimestamp(card.createdAt, card.id) }
+          : card)
+        : data.cards
+    })
+  }
+];
+
+const BACKUP_VERSION = BACKUP_MIGRATIONS[BACKUP_MIGRATIONS.length - 1].version;
+
+export const createBackup = (data: BackupData): BackupFile => ({
+  app: BACKUP_APP_ID,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  ...data
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// 可以被 Date 解析的時間字串 (formatDate 遇到無效日期會出錯)
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean): boolean =>
+  value === undefined || check(value);
+
+const isArrayOf = (value: unknown, check: (item: unknown) => boolean): boolean =>
+  Array.isArray(value) && value.every(check);
+
+const isValidStampEvent = (value: unknown): boolean =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  Number.isInteger(value.index) && (value.index as number) >= 0 &&
+  typeof value.stamped === 'boolean' &&
+  isDateString(value.at) &&
+  ['manual', 'session', 'revert', 'lesson'].includes(value.source as string) &&
+  isOptional(value.reason, reason => typeof reason === 'string') &&
+  isOptional(value.round, isFiniteNumber) &&
+  isOptional(value.batchId, batchId => typeof batchId === 'string') &&
+  isOptional(value.lessonId, lessonId => typeof lessonId === 'string') &&
+  isOptional(value.stampType, stampType => STAMP_TYPES.includes(stampType as StampType));
+
+const isValidCompletedRound = (value: unknown): boolean =>
+  isRecord(value) &&
+  isFiniteNumber(value.round) &&
+  isFiniteNumber(value.goal) &&
+  isDateString(value.startedAt) &&
+  isDateString(value.completedAt);
+
+const isValidRedemption = (value: unknown): boolean =>
+  isRecord(value) &&
+  typeof value.tierId === 'string' &&
+  isFiniteNumber(value.round) &&
+  isDateString(value.redeemedAt);
+
+const isValidPointEntry = (value: unknown): boolean =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  isFiniteNumber(value.amount) &&
+  isDateString(value.at) &&
+  ['stamp', 'adjustment', 'opening'].includes(value.source as string) &&
+  isOptional(value.reason, reason => typeof reason === 'string') &&
+  isOptional(value.stampEventId, stampEventId => typeof stampEventId === 'string') &&
+  isOptional(value.stampType, stampType => STAMP_TYPES.includes(stampType as StampType));
+
+// 學生資料的每個欄位都是字串；較早的備份可能缺少部分欄位，由 normalizeCard 補上空字串
+const isValidProfile = (value: unknown): boolean =>
+  isRecord(value) &&
+  (['nickname', 'avatar', 'grade', 'parentName', 'parentContact', 'notes'] as const)
+    .every(field => isOptional(value[field], item => typeof item === 'string'));
+
+// 較早的卡片沒有歷史紀錄、點數帳本等欄位，匯入時由 normalizeCard 補上；有的話每一筆都要正確
+const isValidCard = (value: unknown): value is Card =>
+  isRecord(value) &&
+  isFiniteNumber(value.id) &&
+  typeof value.name === 'string' &&
+  isArrayOf(value.stamps, stamp => typeof stamp === 'boolean') &&
+  isDateString(value.createdAt) &&
+  typeof value.themeColor === 'string' &&
+  isOptional(value.history, history => isArrayOf(history, isValidStampEvent)) &&
+  isOptional(value.pointLedger, ledger => isArrayOf(ledger, isValidPointEntry)) &&
+  isOptional(value.completedRounds, rounds => isArrayOf(rounds, isValidCompletedRound)) &&
+  isOptional(value.redemptions, redemptions => isArrayOf(redemptions, isValidRedemption)) &&
+  isOptional(value.groupIds, groupIds => isArrayOf(groupIds, id => typeof id === 'string')) &&
+  isOptional(value.revertedBatchIds, batchIds => isArrayOf(batchIds, id => typeof id === 'string')) &&
+  isOptional(value.points, isFiniteNumber) &&
+  // 格數必須和目標一致 (較早的卡片沒有 goal，以 stamps 的長度為準)
+  isOptional(value.goal, goal => Number.isInteger(goal) && (goal as number) > 0 && (value.stamps as unknown[]).length === goal) &&
+  isOptional(value.locale, isLocale) &&
+  isOptional(value.round, round => Number.isInteger(round) && (round as number) > 0) &&
+  isOptional(value.revision, isFiniteNumber) &&
+  isOptional(value.roundStartedAt, isDateString) &&
+  isOptional(value.updatedAt, isDateString) &&
+  isOptional(value.deletedAt, isDateString) &&
+  isOptional(value.profile, isValidProfile);
+
+const isValidRewardTier = (value: unknown): value is RewardTier =>
+  isRecord(value) && typeof value.id === 'string' && isFiniteNumber(value.stamps) && typeof value.label === 'string';
+
+const isValidGroup = (value: unknown): value is Group =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string';
+
+// 上課日期必須是存在的日期 (例如不能是 2025-02-30)
+const isDateKey = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && toDateKey(fromDateKey(value)) === value;
+
+const isValidLesson = (value: unknown): value is Lesson =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  isFiniteNumber(value.cardId) &&
+  isDateKey(value.date) &&
+  isFiniteNumber(value.durationMinutes) && value.durationMinutes >= 0 &&
+  typeof value.topic === 'string' &&
+  typeof value.attended === 'boolean' &&
+  Number.isInteger(value.stampsAwarded) && (value.stampsAwarded as number) >= 0;
+
+// 驗證備份檔內容，格式錯誤時丟出可以直接顯示給使用者的錯誤訊息
+export const parseBackup = (text: string, t: Translate): BackupFile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error(t('backup.error.invalidJson'));
+  }
+
+  if (!isRecord(parsed) || parsed.app !== BACKUP_APP_ID) {
+    throw new Error(t('backup.error.wrongApp'));
+  }
+  const version = parsed.version;
+  if (!Number.isInteger(version) || (version as number) < 1 || (version as number) > BACKUP_VERSION) {
+    throw new Error(t('backup.error.newerVersion'));
+  }
+  const data = BACKUP_MIGRATIONS
+    .filter(migration => migration.version > (version as number))
+    .reduce((migrated, migration) => migration.migrate(migrated), parsed);
+
+  const cards = data.cards;
+  if (!Array.isArray(cards)) {
+    throw new Error(t('backup.error.missingCards'));
+  }
+  const invalidIndex = cards.findIndex(card => !isValidCard(card));
+  if (invalidIndex >= 0) {
+    throw new Error(t('backup.error.invalidCard', { index: invalidIndex + 1 }));
+  }
+  const validCards = cards as Card[];
+  const ids = new Set(validCards.map(card => card.id));
+  if (ids.size !== validCards.length) {
+    throw new Error(t('backup.error.duplicateIds'));
+  }
+
+  const rewardTiers = data.rewardTiers;
+  if (!Array.isArray(rewardTiers) || !rewardTiers.every(isValidRewardTier)) {
+    throw new Error(t('backup.error.invalidRewardTiers'));
+  }
+
+  const groups = data.groups;
+  if (!Array.isArray(groups) || !groups.every(isValidGroup)) {
+    throw new Error(t('backup.error.invalidGroups'));
+  }
+
+  const lessons = data.lessons;
+  if (!Array.isArray(lessons) || !lessons.every(isValidLesson)) {
+    throw new Error(t('backup.error.invalidLessons'));
+  }
+
+  return {
+    app: BACKUP_APP_ID,
+    version: BACKUP_VERSION,
+    exportedAt: isDateString(data.exportedAt) ? data.exportedAt : '',
+    cards: validCards.map(normalizeCard),
+    rewardTiers,
+    groups,
+    lessons
+  };
+};
+
+// 備份中的卡片確定比本機新時才能直接覆蓋：revision 較大，而且本機的每一筆紀錄 (蓋章、點數、兌換、完成的卡) 備份都有
+// 只累加的紀錄無法判斷的欄位 (例如學生資料、分組、樣式、垃圾桶) 靠 revision 判斷；較舊的備份一律列為衝突，不會蓋掉本機較新的修改
+const isFastForward = (local: Card, incoming: Card): boolean => {
+  const includesAll = <T,>(localItems: T[], incomingItems: T[], key: (item: T) => string) => {
+    const incomingKeys = new Set(incomingItems.map(key));
+    return localItems.every(item => incomingKeys.has(key(item)));
+  };
+  return incoming.revision > local.revision &&
+    includesAll(local.history, incoming.history, event => event.id) &&
+    includesAll(local.pointLedger, incoming.pointLedger, entry => entry.id) &&
+    includesAll(local.redemptions, incoming.redemptions, redemption => `${redemption.tierId}:${redemption.round}`) &&
+    includesAll(local.completedRounds, incoming.completedRounds, round => String(round.round)) &&
+    includesAll(local.revertedBatchIds, incoming.revertedBatchIds, batchId => batchId);
+};
+
+// 依 id 比對備份與現有卡片
+export const diffBackup = (existing: Card[], incoming: Card[]): BackupDiff => {
+  const diff: BackupDiff = { added: [], changed: [], conflicts: [], unchanged: [] };
+  const existingById = new Map(existing.map(card => [card.id, card]));
+
+  incoming.forEach(card => {
+    const local = existingById.get(card.id);
+    if (!local) {
+      diff.added.push(card);
+    } else if (stableStringify(local) === stableStringify(card)) {
+      diff.unchanged.push(card);
+    } else {
+      if (isFastForward(local, card)) {
+        diff.changed.push(card);
+      } else {
+        diff.conflicts.push({ local, incoming: card });
+      }
+    }
+  });
+
+  return diff;
+};
+
+// 合併備份：新增新卡片、更新有變更的卡片，衝突的卡片只有在 useIncoming 中才會被覆蓋
+export const mergeBackup = (existing: Card[], diff: BackupDiff, useIncoming: Set<number>): Card[] => {
+  const replacements = new Map<number, Card>();
+  diff.changed.forEach(card => replacements.set(card.id, card));
+  diff.conflicts
+    .filter(({ incoming }) => useIncoming.has(incoming.id))
+    .forEach(({ incoming }) => replacements.set(incoming.id, incoming));
+
+  return [
+    ...diff.added,
+    ...existing.map(card => replacements.get(card.id) || card)
+  ];
+};
+
+const DOWNLOAD_URL_LIFETIME_MS = 30000;
+
+const downloadFile = (filename: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Safari 與 Firefox 會在 click 之後才非同步開始下載，太早釋放網址會讓下載失敗
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_URL_LIFETIME_MS);
+};
+
+// --- Card Export (圖片與列印) ---
+
+type PrintPageSize = 'A4' | 'A5';
+
+const PRINT_PAGE_SIZES: PrintPageSize[] = ['A4', 'A5'];
+
+const EXPORT_WIDTH = 1080;
+const EXPORT_PADDING = 80;
+const EXPORT_COLUMNS = 5;
+const EXPORT_GAP = 36;
+const EXPORT_FONT = '"PingFang TC", "Noto Sans TC", "Microsoft JhengHei", system-ui, sans-serif';
+
+const drawStamp = (ctx: CanvasRenderingContext2D, icon: StampIcon, color: string, cx: number, cy: number, size: number) => {
+  ctx.save();
+  ctx.translate(cx, cy);
+  ctx.rotate(-10 * Math.PI / 180);
+  ctx.scale(size / 40, size / 40);
+  ctx.translate(-20, -20);
+  ctx.globalAlpha = 0.9;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2.5;
+  ctx.setLineDash([4, 2]);
+  ctx.beginPath();
+  ctx.arc(20, 20, 18, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  (STAMP_ICON_PARTS[icon] || STAMP_ICON_PARTS.check).forEach(part => {
+    const path = new Path2D(part.d);
+    const paint = part.white ? '#ffffff' : color;
+    if (part.stroke) {
+      ctx.strokeStyle = paint;
+      ctx.lineWidth = part.stroke;
+      ctx.stroke(path);
+    } else {
+      ctx.fillStyle = paint;
+      ctx.fill(path);
+    }
+  });
+  ctx.restore();
+};
+
+// 以 canvas 重新繪製唯讀卡片 (名字、集點格、點數與日期)，不依賴畫面截圖
+const renderCardImage = (card: SharedCard, { t, formatDate }: I18n, encouragement: string): HTMLCanvasElement => {
+  const themeHex = getThemeHex(card.themeColor);
+  const goal = card.goal || DEFAULT_CARD_GOAL;
+  const stamps = card.stamps || Array(goal).fill(false);
+  const points = card.points || 0;
+  const stampedCount = stamps.filter(Boolean).length;
+  const rewards = card.rewards || [];
+
+  const cellSize = (EXPORT_WIDTH - EXPORT_PADDING * 2 - EXPORT_GAP * (EXPORT_COLUMNS - 1)) / EXPORT_COLUMNS;
+  const rows = Math.ceil(stamps.length / EXPORT_COLUMNS);
+  const headerHeight = 320;
+  const gridTop = headerHeight + 40;
+  const gridHeight = rows * cellSize + (rows - 1) * EXPORT_GAP;
+  const height = gridTop + gridHeight + 240;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = EXPORT_WIDTH;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('無法建立圖片');
+
+  ctx.fillStyle = '#fffdf9';
+  ctx.fillRect(0, 0, EXPORT_WIDTH, height);
+
+  // 頂部色塊與弧形底邊
+  ctx.fillStyle = themeHex;
+  ctx.fillRect(0, 0, EXPORT_WIDTH, headerHeight);
+  ctx.fillStyle = '#fffdf9';
+  ctx.beginPath();
+  ctx.ellipse(EXPORT_WIDTH / 2, headerHeight + 10, EXPORT_WIDTH / 2, 50, 0, Math.PI, 0);
+  ctx.fill();
+
+  ctx.textBaseline = 'alphabetic';
+  ctx.fillStyle = '#ffffff';
+  ctx.textAlign = 'left';
+  ctx.font = `900 88px ${EXPORT_FONT}`;
+  ctx.fillText(card.name || '', EXPORT_PADDING, 150, EXPORT_WIDTH - EXPORT_PADDING * 2 - 260);
+  ctx.globalAlpha = 0.8;
+  ctx.font = `500 36px ${EXPORT_FONT}`;
+  ctx.fillText(t('card.label'), EXPORT_PADDING, 215);
+  ctx.globalAlpha = 1;
+
+  // 點數
+  const pointsText = String(points);
+  const unitText = t('card.points');
+  ctx.font = `bold 64px ${EXPORT_FONT}`;
+  const pointsWidth = ctx.measureText(pointsText).width;
+  ctx.font = `28px ${EXPORT_FONT}`;
+  const unitWidth = ctx.measureText(unitText).width;
+  const boxWidth = pointsWidth + unitWidth + 72;
+  const boxX = EXPORT_WIDTH - EXPORT_PADDING - boxWidth;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
+  ctx.beginPath();
+  ctx.roundRect(boxX, 80, boxWidth, 100, 24);
+  ctx.fill();
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `bold 64px ${EXPORT_FONT}`;
+  ctx.fillText(pointsText, boxX + 28, 152);
+  ctx.globalAlpha = 0.8;
+  ctx.font = `28px ${EXPORT_FONT}`;
+  ctx.fillText(unitText, boxX + 44 + pointsWidth, 152);
+  ctx.textAlign = 'right';
+  ctx.fillText(t('card.stampProgress', { count: stampedCount, goal }), EXPORT_WIDTH - EXPORT_PADDING, 230);
+  ctx.textAlign = 'left';
+  ctx.globalAlpha = 1;
+
+  // 集點格
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  stamps.forEach((isStamped, index) => {
+    const cx = EXPORT_PADDING + (index % EXPORT_COLUMNS) * (cellSize + EXPORT_GAP) + cellSize / 2;
+    const cy = gridTop + Math.floor(index / EXPORT_COLUMNS) * (cellSize + EXPORT_GAP) + cellSize / 2;
+    if (isStamped) {
+      drawStamp(ctx, card.stampIcon || 'check', themeHex, cx, cy, cellSize * 0.8);
+    } else {
+      ctx.fillStyle = 'rgba(243, 244, 246, 0.5)';
+      ctx.strokeStyle = '#d1d5db';
+      ctx.lineWidth = 4;
+      ctx.setLineDash([10, 8]);
+      ctx.beginPath();
+      ctx.arc(cx, cy, cellSize / 2 - 2, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillStyle = '#d1d5db';
+      ctx.font = `bold 36px ${EXPORT_FONT}`;
+      ctx.fillText(String(index + 1), cx, cy);
+    }
+
+    const reward = rewards.find(r => r.stamps === index + 1);
+    if (reward) {
+      const markerX = cx + cellSize / 2 - 14;
+      const markerY = cy - cellSize / 2 + 14;
+      ctx.fillStyle = reward.redeemed ? '#d1d5db' : '#facc15';
+      ctx.beginPath();
+      ctx.arc(markerX, markerY, 22, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.font = `24px ${EXPORT_FONT}`;
+      ctx.fillText('🎁', markerX, markerY + 1);
+    }
+  });
+
+  // 底部：鼓勵文字與日期
+  const footerTop = gridTop + gridHeight + 60;
+  ctx.strokeStyle = '#e5e7eb';
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.moveTo(EXPORT_PADDING, footerTop);
+  ctx.lineTo(EXPORT_WIDTH - EXPORT_PADDING, footerTop);
+  ctx.stroke();
+  ctx.fillStyle = '#9ca3af';
+  ctx.font = `36px ${EXPORT_FONT}`;
+  ctx.fillText(encouragement, EXPORT_WIDTH / 2, footerTop + 70, EXPORT_WIDTH - EXPORT_PADDING * 2);
+  ctx.font = `28px ${EXPORT_FONT}`;
+  ctx.fillText(t('export.date', { date: formatDate(new Date()) }), EXPORT_WIDTH / 2, footerTop + 130);
+
+  return canvas;
+};
+
+const downloadCardImage = async (card: SharedCard, i18n: I18n, encouragement: string) => {
+  const canvas = renderCardImage(card, i18n, encouragement);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('無法建立圖片');
+  downloadFile(i18n.t('export.fileName', { name: card.name || '' }), blob, 'image/png');
+};
+
+// @page 無法用 class 切換，列印前暫時插入指定紙張大小的樣式
+const printCard = (pageSize: PrintPageSize) => {
+  const style = document.createElement('style');
+  style.textContent = `@page { size: ${pageSize} portrait; margin: 12mm; }`;
+  document.head.appendChild(style);
+  window.addEventListener('afterprint', () => style.remove(), { once: true });
+  window.print();
+};
+
+// --- Student Photo ---
+
+// 將選取的照片裁成正方形並縮小，存成 JPEG data URL
+const resizeAvatar = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const side = Math.min(image.naturalWidth, image.naturalHeight);
+      const canvas = document.createElement('canvas');
+      canvas.width = canvas.height = AVATAR_SIZE;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('無法處理照片'));
+        return;
+      }
+      ctx.drawImage(
+        image,
+        (image.naturalWidth - side) / 2,
+        (image.naturalHeight - side) / 2,
+        side,
+        side,
+        0,
+        0,
+        AVATAR_SIZE,
+        AVATAR_SIZE
+      );
+      resolve(canvas.toDataURL('image/jpeg', 0.85));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('無法讀取照片'));
+    };
+    image.src = url;
+  });
+
+// --- QR Code ---
+// 在裝置上產生 QR code (不呼叫外部 API)，離線也能使用
+
+const QR_BORDER = 2;
+const QR_IMAGE_SCALE = 12;
+
+const createQrMatrix = (text: string): boolean[][] =>
+  encodeQr(text, { ecc: 'M', border: QR_BORDER }).data;
+
+// 將深色模組合併成單一 SVG path，避免產生上千個 <rect>
+const qrMatrixToPath = (matrix: boolean[][]): string =>
+  matrix
+    .flatMap((row, y) => row.map((isDark, x) => (isDark ? `M${x} ${y}h1v1h-1z` : '')))
+    .join('');
+
+const downloadQrImage = async (matrix: boolean[][], filename: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = canvas.height = matrix.length * QR_IMAGE_SCALE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('無法建立圖片');
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = '#000000';
+  ctx.scale(QR_IMAGE_SCALE, QR_IMAGE_SCALE);
+  ctx.fill(new Path2D(qrMatrixToPath(matrix)));
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('無法建立圖片');
+  downloadFile(filename, blob, 'image/png');
+};
+
+// --- Routing ---
+// 每個畫面都有自己的路徑 (例如 /records、/card/123)，瀏覽器的上一頁與重新整理都能回到同一個畫面
+// 分享連結仍然使用 ?s= 參數，和路徑互不影響
+
+// App 可能部署在子路徑 (vite 的 base，例如 /student-rewards/)；VIEW_PATHS 是相對於 base 的路徑
+const BASE_PATH = import.meta.env.BASE_URL.replace(/\/$/, '');
+
+const toAppPath = (path: string): string => `${BASE_PATH}${path}`;
+
+const fromAppPath = (pathname: string): string =>
+  BASE_PATH && (pathname === BASE_PATH || pathname.startsWith(`${BASE_PATH}/`))
+    ? pathname.slice(BASE_PATH.length) || '/'
+    : pathname;
+
+const VIEW_PATHS: Record<ViewType, string> = {
+  home: '/',
+  create: '/create',
+  records: '/records',
+  card: '/card',
+  profile: '/profile',
+  rewards: '/rewards',
+  backup: '/backup',
+  groups: '/groups',
+  session: '/session',
+  calendar: '/calendar',
+  trash: '/trash'
+};
+
+const parseIdList = (value: string | undefined): number[] =>
+  (value || '').split(',').map(Number).filter(id => Number.isInteger(id) && id > 0);
+
+const parseRoute = (pathname: string): Route => {
+  const [, first = '', second] = fromAppPath(pathname).split('/');
+  const view = (Object.keys(VIEW_PATHS) as ViewType[]).find(key => VIEW_PATHS[key] === `/${first}`) || 'home';
+
+  if (view === 'card' || view === 'profile') {
+    const [cardId] = parseIdList(second);
+    // 沒有學生 id 的 /card 回到學生列表
+    return cardId ? { view, cardId, sessionCardIds: [] } : { view: 'records', cardId: null, sessionCardIds: [] };
+  }
+  if (view === 'session') {
+    const sessionCardIds = parseIdList(second);
+    return sessionCardIds.length > 0 ? { view, cardId: null, sessionCardIds } : { view: 'records', cardId: null, sessionCardIds: [] };
+  }
+  return { view, cardId: null, sessionCardIds: [] };
+};
+
+// 回傳包含 base 的完整路徑，可以直接和 window.location.pathname 比較
+const routeToPath = (route: Route): string => {
+  if (route.view === 'card' || route.view === 'profile') {
+    return toAppPath(route.cardId ? `${VIEW_PATHS[route.view]}/${route.cardId}` : VIEW_PATHS.records);
+  }
+  if (route.view === 'session') {
+    return toAppPath(route.sessionCardIds.length > 0 ? `${VIEW_PATHS.session}/${route.sessionCardIds.join(',')}` : VIEW_PATHS.records);
+  }
+  return toAppPath(VIEW_PATHS[route.view]);
+};
+
+// --- Components ---
+
+// 1. HomeView
+interface HomeViewProps extends BaseProps {
+  cards: Card[];
+  trashCount: number;
+  groups: Group[];
+  onSelectGroup: (groupId: string) => void;
+  onSelectCard: (cardId: number) => void;
+}
+
+const HomeView: React.FC<HomeViewProps> = ({ onNavigate, cards, trashCount, groups, onSelectGroup, onSelectCard }) => {
+  const { t } = useI18n();
+  const cardCount = cards.length;
+
+  return (
+    <div className="flex flex-col h-full bg-[#f8f5f2] max-w-2xl mx-auto w-full shadow-2xl min-h-screen">
+      <div className="bg-white p-10 rounded-b-[40px] shadow-xs mb-8 relative overflow-hidden">
+        <div className="absolute top-[-20px] right-[-20px] w-40 h-40 bg-yellow-100 rounded-full opacity-50 blur-xl"></div>
+        <div className="absolute top-[40px] left-[-20px] w-32 h-32 bg-rose-100 rounded-full opacity-50 blur-xl"></div>
+        
+        <div className="relative z-10 flex justify-between items-start gap-4">
+          <div>
+            <h1 className="text-4xl font-black text-gray-800 tracking-tight mb-3">
+              Student Rewards <span className="text-rose-500">.</span>
+            </h1>
+            <p className="text-gray-500 text-xl font-medium">{t('home.subtitle')}</p>
+          </div>
+          <LanguageSwitcher />
+        </div>
+      </div>
+
+      <div className="flex-1 px-8 flex flex-col gap-6 overflow-y-auto pb-10">
+        <button 
+          onClick={() => onNavigate('create')}
+          className="group w-full bg-white p-8 rounded-3xl shadow-xs hover:shadow-lg transition-all border border-gray-100 flex justify-between items-center cursor-pointer"
+        >
+          <div className="flex items-center gap-6">
+            <div className="w-16 h-16 bg-rose-100 rounded-2xl flex items-center justify-center text-rose-600">
+              <Plus size={32} strokeWidth={3} />
+            </div>
+            <div className="text-left">
+              <h2 className="text-2xl font-bold text-gray-800">{t('home.create.title')}</h2>
+              <p className="text-gray-400 text-lg mt-1">{t('home.create.description')}</p>
+            </div>
+          </div>
+          <ChevronRight className="text-gray-300" size={32} />
+        </button>
+
+        <button 
+          onClick={() => onNavigate('records')}
+          className="group w-full bg-white p-8 rounded-3xl shadow-xs hover:shadow-lg transition-all border border-gray-100 flex justify-between items-center cursor-pointer"
+        >
+          <div className="flex items-center gap-6">
+            <div className="w-16 h-16 bg-indigo-100 rounded-2xl flex items-center justify-center text-indigo-600">
+              <List size={32} strokeWidth={3} />
+            </div>
+            <div className="text-left">
+              <h2 className="text-2xl font-bold text-gray-800">{t('home.records.title')}</h2>
+              <p className="text-gray-400 text-lg mt-1">{t('home.records.description', { count: cardCount })}</p>
+            </div>
+          </div>
+          <ChevronRight className="text-gray-300" size={32} />
+        </button>
+
+        {cardCount > 0 && <DashboardPanel cards={cards} onSelectCard={onSelectCard} />}
+
+        <button 
+          onClick={() => onNavigate('calendar')}
+          className="group w-full bg-white p-8 rounded-3xl shadow-xs hover:shadow-lg transition-all border border-gray-100 flex justify-between items-center cursor-pointer"
+        >
+          <div className="flex items-center gap-6">
+            <div className="w-16 h-16 bg-sky-100 rounded-2xl flex items-center justify-center text-sky-600">
+              <CalendarDays size={32} strokeWidth={2.5} />
+            </div>
+            <div className="text-left">
+              <h2 className="text-2xl font-bold text-gray-800">{t('home.calendar.title')}</h2>
+              <p className="text-gray-400 text-lg mt-1">{t('home.calendar.description')}</p>
+            </div>
+          </div>
+          <ChevronRight className="text-gray-300" size={32} />
+        </button>
+
+        <div className="w-full bg-white p-6 rounded-3xl shadow-xs border border-gray-100">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+              <Users size={24} className="text-sky-500" /> {t('home.groups.title')}
+            </h2>
+            <button onClick={() => onNavigate('groups')} className="text-sky-600 font-bold hover:text-sky-700">
+              {t('home.groups.manage')}
+            </button>
+          </div>
+          {groups.length === 0 ? (
+            <p className="text-gray-400">{t('home.groups.empty')}</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              {groups.map(group => (
+                <button
+                  key={group.id}
+                  onClick={() => onSelectGroup(group.id)}
+                  className="bg-sky-50 hover:bg-sky-100 rounded-2xl px-4 py-3 text-left transition-colors"
+                >
+                  <p className="font-bold text-gray-800 truncate">{group.name}</p>
+                  <p className="text-sm text-gray-500">{t('common.studentCount', { count: cards.filter(card => card.groupIds.includes(group.id)).length })}</p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <button 
+          onClick={() => onNavigate('rewards')}
+          className="group w-full bg-white p-8 rounded-3xl shadow-xs hover:shadow-lg transition-all border border-gray-100 flex justify-between items-center cursor-pointer"
+        >
+          <div className="flex items-center gap-6">
+            <div className="w-16 h-16 bg-yellow-100 rounded-2xl flex items-center justify-center text-yellow-600">
+              <Gift size={32} strokeWidth={2.5} />
+            </div>
+            <div className="text-left">
+              <h2 className="text-2xl font-bold text-gray-800">{t('home.rewards.title')}</h2>
+              <p className="text-gray-400 text-lg mt-1">{t('home.rewards.description')}</p>
+            </div>
+          </div>
+          <ChevronRight className="text-gray-300" size={32} />
+        </button>
+
+        <button 
+          onClick={() => onNavigate('backup')}
+          className="group w-full bg-white p-8 rounded-3xl shadow-xs hover:shadow-lg transition-all border border-gray-100 flex justify-between items-center cursor-pointer"
+        >
+          <div className="flex items-center gap-6">
+            <div className="w-16 h-16 bg-emerald-100 rounded-2xl flex items-center justify-center text-emerald-600">
+              <DatabaseBackup size={32} strokeWidth={2.5} />
+            </div>
+            <div className="text-left">
+              <h2 className="text-2xl font-bold text-gray-800">{t('home.backup.title')}</h2>
+              <p className="text-gray-400 text-lg mt-1">{t('home.backup.description')}</p>
+            </div>
+          </div>
+          <ChevronRight className="text-gray-300" size={32} />
+        </button>
+
+        <button 
+          onClick={() => onNavigate('trash')}
+          className="group w-full bg-white p-8 rounded-3xl shadow-xs hover:shadow-lg transition-all border border-gray-100 flex justify-between items-center cursor-pointer"
+        >
+          <div className="flex items-center gap-6">
+            <div className="w-16 h-16 bg-gray-100 rounded-2xl flex items-center justify-center text-gray-500">
+              <Trash2 size={32} strokeWidth={2.5} />
+            </div>
+            <div className="text-left">
+              <h2 className="text-2xl font-bold text-gray-800">{t('home.trash.title')}</h2>
+              <p className="text-gray-400 text-lg mt-1">
+                {trashCount > 0 ? t('home.trash.description', { count: trashCount }) : t('trash.empty')}
+              </p>
+            </div>
+          </div>
+          <ChevronRight className="text-gray-300" size={32} />
+        </button>
+
+        <div className="mt-auto mb-10 flex justify-center opacity-10">
+            <GraduationCap size={150} className="text-gray-400" />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 2. CreateView
+interface CreateViewProps extends BaseProps {
+  onCreate: (e: React.FormEvent) => void;
+  newCardName: string;
+  setNewCardName: (name: string) => void;
+  newCardGoal: number;
+  setNewCardGoal: (goal: number) => void;
+  newCardTheme: CardTheme;
+  setNewCardTheme: (theme: CardTheme) => void;
+}
+
+const CreateView: React.FC<CreateViewProps> = ({ 
+  onNavigate, 
+  onCreate, 
+  newCardName, 
+  setNewCardName,
+  newCardGoal,
+  setNewCardGoal,
+  newCardTheme,
+  setNewCardTheme
+}) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="flex flex-col h-full bg-[#f8f5f2] max-w-2xl mx-auto w-full shadow-2xl min-h-screen">
+      <div className="p-6 flex items-center">
+        <button onClick={() => onNavigate('home')} className="w-14 h-14 bg-white rounded-full flex items-center justify-center shadow-xs hover:bg-gray-50 transition-colors">
+          <ArrowLeft size={28} className="text-gray-600" />
+        </button>
+      </div>
+
+      <div className="flex-1 px-8 flex flex-col items-center pt-10">
+        <div className="w-full">
+          <div className="bg-white p-10 rounded-[40px] shadow-xl border border-gray-100 relative overflow-hidden">
+            <div className="absolute top-0 left-0 w-full h-3 bg-rose-500"></div>
+            <h2 className="text-3xl font-bold text-gray-800 mb-8">{t('create.title')}</h2>
+            
+            <form onSubmit={onCreate} className="flex flex-col gap-8">
+              <div>
+                <label className="block text-lg font-bold text-gray-500 mb-4 uppercase tracking-wider">{t('create.nameLabel')}</label>
+                <div className="relative">
+                  <User className="absolute left-6 top-1/2 -translate-y-1/2 text-gray-400" size={28} />
+                  <input
+                    type="text"
+                    value={newCardName}
+                    onChange={(e) => setNewCardName(e.target.value)}
+                    placeholder={t('create.namePlaceholder')}
+                    className="w-full text-2xl py-6 pl-16 pr-6 bg-gray-50 border-2 border-transparent rounded-2xl focus:bg-white focus:border-rose-500 focus:outline-hidden transition-all placeholder:text-gray-300 font-bold text-gray-800"
+                    autoFocus
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-lg font-bold text-gray-500 mb-4 uppercase tracking-wider">{t('create.goalLabel')}</label>
+                <div className="grid grid-cols-4 gap-3">
+                  {CARD_GOAL_OPTIONS.map(goal => (
+                    <button
+                      key={goal}
+                      type="button"
+                      onClick={() => setNewCardGoal(goal)}
+                      className={`py-4 rounded-2xl font-bold text-xl border-2 transition-all ${
+                        newCardGoal === goal
+                          ? 'bg-rose-50 border-rose-500 text-rose-600'
+                          : 'bg-gray-50 border-transparent text-gray-500 hover:bg-gray-100'
+                      }`}
+                    >
+                      {goal}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <ThemePicker theme={newCardTheme} onChange={setNewCardTheme} />
+              <button 
+                type="submit" 
+                disabled={!newCardName.trim()}
+                className="w-full bg-rose-500 text-white py-6 rounded-2xl font-bold text-2xl shadow-lg shadow-rose-200 hover:bg-rose-600 hover:shadow-rose-300 disabled:opacity-50 disabled:shadow-none transition-all transform active:scale-[0.98] mt-4"
+              >
+                {t('create.submit')}
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 3. RecordsView
+interface RecordsViewProps extends BaseProps {
+  cards: Card[];
+  groups: Group[];
+  groupFilter: string | null;
+  onGroupFilterChange: (groupId: string | null) => void;
+  listPrefs: RecordsListPrefs;
+  onListPrefsChange: (prefs: RecordsListPrefs) => void;
+  onRequestDelete: (card: Card) => void;
+  onSelect: (cardId: number) => void;
+  onStartSession: (cardIds: number[]) => void;
+  undoRedo: UndoRedoControls;
+}
+
+const RecordsView: React.FC<RecordsViewProps> = ({ 
+  onNavigate, 
+  cards: allCards, 
+  groups,
+  groupFilter,
+  onGroupFilterChange,
+  listPrefs,
+  onListPrefsChange,
+  onRequestDelete, 
+  onSelect,
+  onStartSession,
+  undoRedo
+}) => {
+  const { t } = useI18n();
+  const [query, setQuery] = useState('');
+  // 課堂模式：先選取多位學生，再一次蓋章
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const groupCards = groupFilter ? allCards.filter(card => card.groupIds.includes(groupFilter)) : allCards;
+  const cards = filterAndSortCards(groupCards, query, listPrefs);
+
+  const toggleSelected = (cardId: number) => {
+    const next = new Set(selectedIds);
+    if (next.has(cardId)) {
+      next.delete(cardId);
+    } else {
+      next.add(cardId);
+    }
+    setSelectedIds(next);
+  };
+
+  const toggleSelecting = () => {
+    setIsSelecting(!isSelecting);
+    setSelectedIds(new Set());
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-[#f8f5f2] max-w-2xl mx-auto w-full shadow-2xl min-h-screen">
+      <div className="p-6 pb-4 flex items-center justify-between sticky top-0 bg-[#f8f5f2]/95 backdrop-blur-xs z-10">
+        <div className="flex items-center gap-4">
+          <button onClick={() => onNavigate('home')} className="w-14 h-14 bg-white rounded-full flex items-center justify-center shadow-xs hover:bg-gray-50 transition-colors">
+            <ArrowLeft size={28} className="text-gray-600" />
+          </button>
+          <h2 className="text-2xl font-bold text-gray-800">{t('records.title')}</h2>
+        </div>
+        <div className="flex items-center gap-3">
+          <UndoRedoButtons controls={undoRedo} />
+          {allCards.length > 0 && (
+            <button
+              onClick={toggleSelecting}
+              className={`px-5 h-14 rounded-full font-bold flex items-center gap-2 shadow-xs transition-colors ${
+                isSelecting ? 'bg-gray-800 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {isSelecting ? <X size={22} /> : <ClipboardCheck size={22} />}
+              {isSelecting ? t('common.cancel') : t('records.sessionMode')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {groups.length > 0 && (
+        <div className="px-8 pb-2 flex gap-2 overflow-x-auto no-scrollbar">
+          {[{ id: null as string | null, name: t('common.allStudents'), count: allCards.length }, ...groups.map(group => ({
+            id: group.id as string | null,
+            name: group.name,
+            count: allCards.filter(card => card.groupIds.includes(group.id)).length
+          }))].map(chip => (
+            <button
+              key={chip.id ?? 'all'}
+              onClick={() => onGroupFilterChange(chip.id)}
+              className={`px-4 py-2 rounded-full font-bold whitespace-nowrap transition-colors ${
+                groupFilter === chip.id ? 'bg-sky-500 text-white shadow-md' : 'bg-white text-gray-600 border border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              {chip.name} <span className="opacity-70">{chip.count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {allCards.length > 0 && (
+        <div className="px-8 pt-2 space-y-3">
+          <div className="relative">
+            <Search className="absolute left-5 top-1/2 -translate-y-1/2 text-gray-400" size={22} />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('records.searchPlaceholder')}
+              className="w-full text-lg py-3 pl-14 pr-5 bg-white border-2 border-transparent rounded-2xl focus:border-rose-400 focus:outline-hidden font-bold text-gray-800 placeholder:text-gray-300 shadow-xs"
+            />
+          </div>
+          <div className="flex gap-3">
+            <label className="flex-1 flex items-center gap-2 bg-white rounded-2xl px-4 py-2 shadow-xs">
+              <ArrowUpDown size={18} className="text-gray-400 shrink-0" />
+              <select
+                value={listPrefs.sort}
+                onChange={(e) => onListPrefsChange({ ...listPrefs, sort: e.target.value as RecordsSort })}
+                className="flex-1 min-w-0 bg-transparent font-bold text-gray-700 focus:outline-hidden"
+              >
+                {RECORDS_SORT_OPTIONS.map(sort => (
+                  <option key={sort} value={sort}>{t(`records.sort.${sort}`)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex-1 flex items-center gap-2 bg-white rounded-2xl px-4 py-2 shadow-xs">
+              <Filter size={18} className="text-gray-400 shrink-0" />
+              <select
+                value={listPrefs.filter}
+                onChange={(e) => onListPrefsChange({ ...listPrefs, filter: e.target.value as RecordsFilter })}
+                className="flex-1 min-w-0 bg-transparent font-bold text-gray-700 focus:outline-hidden"
+              >
+                {RECORDS_FILTER_OPTIONS.map(filter => (
+                  <option key={filter} value={filter}>{t(`records.filter.${filter}`)}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto px-8 py-4 space-y-6 pb-20 no-scrollbar">
+        {groupFilter && groupCards.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-[40vh] text-gray-400">
+            <p className="text-xl">{t('records.emptyGroup')}</p>
+            <p className="mt-2">{t('records.emptyGroupHint')}</p>
+          </div>
+        ) : allCards.length > 0 && cards.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-[40vh] text-gray-400">
+            <p className="text-xl">{t('records.noMatches')}</p>
+          </div>
+        ) : cards.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-[50vh] text-gray-400">
+            <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mb-6">
+               <User size={40} className="opacity-30" />
+            </div>
+            <p className="text-xl">{t('records.empty')}</p>
+            <button onClick={() => onNavigate('create')} className="mt-8 px-8 py-4 bg-white text-rose-500 font-bold rounded-full text-lg shadow-xs border border-rose-100 hover:shadow-md transition-all">
+              {t('records.createFirst')}
+            </button>
+          </div>
+        ) : (
+          cards.map(card => (
+            <div 
+              key={card.id}
+              className={`bg-white p-6 rounded-3xl shadow-xs border flex justify-between items-center group relative overflow-hidden cursor-pointer hover:shadow-lg transition-all ${
+                isSelecting && selectedIds.has(card.id) ? 'border-indigo-400 ring-2 ring-indigo-200' : 'border-gray-100'
+              }`}
+              onClick={() => isSelecting ? toggleSelected(card.id) : onSelect(card.id)}
+            >
+              <div className="flex items-center gap-6 flex-1">
+                <StudentAvatar card={card} className="w-16 h-16 text-3xl shadow-md" />
+                <div>
+                  <h3 className="font-bold text-2xl text-gray-800 mb-2">
+                    {card.name}
+                    {card.profile.nickname && <span className="ml-2 text-lg text-gray-400 font-medium">{card.profile.nickname}</span>}
+                  </h3>
+                  <div className="flex items-center gap-3">
+                     <div className="h-2 w-24 bg-gray-100 rounded-full overflow-hidden">
+                        <div className="h-full" style={{ width: `${(getStampedCount(card) / card.goal) * 100}%`, backgroundColor: getThemeHex(card.themeColor) }}></div>
+                     </div>
+                     <p className="text-sm text-gray-400 font-bold">{getStampedCount(card)}/{card.goal}</p>
+                     <p className="text-sm text-gray-400 font-bold">{card.points} {t('card.points')}</p>
+                     {card.completedRounds.length > 0 && (
+                       <p className="text-sm text-yellow-600 font-bold flex items-center gap-1">
+                         <Trophy size={14} /> ×{card.completedRounds.length}
+                       </p>
+                     )}
+                  </div>
+                </div>
+              </div>
+              
+              {/* 右側操作區 */}
+              {isSelecting ? (
+                <div className={`w-10 h-10 rounded-full flex items-center justify-center border-2 shrink-0 transition-colors ${
+                  selectedIds.has(card.id) ? 'bg-indigo-500 border-indigo-500 text-white' : 'border-gray-300 text-transparent'
+                }`}>
+                  <Check size={22} strokeWidth={3} />
+                </div>
+              ) : (
+              <div className="flex items-center gap-4 pl-4 border-l border-gray-100 z-20 relative">
+                <button 
+                  onClick={(e) => {
+                    e.stopPropagation(); 
+                    onRequestDelete(card);
+                  }}
+                  className="w-14 h-14 flex items-center justify-center rounded-full text-gray-300 hover:text-red-600 hover:bg-red-50 transition-colors active:scale-95"
+                  title={t('common.delete')}
+                  type="button"
+                >
+                  <Trash2 size={28} />
+                </button>
+                <ChevronRight className="text-gray-300" size={28} />
+              </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* 課堂模式底部操作列 */}
+      {isSelecting && (
+        <div className="sticky bottom-0 p-6 bg-[#f8f5f2]/95 backdrop-blur-xs border-t border-gray-200 flex gap-3">
+          <button
+            onClick={() => setSelectedIds(new Set(cards.map(card => card.id)))}
+            className="px-5 py-4 bg-white text-gray-700 font-bold rounded-2xl shadow-xs hover:bg-gray-50 transition-colors"
+          >
+            {t('records.selectAll')}
+          </button>
+          <button
+            onClick={() => onStartSession([...selectedIds])}
+            disabled={selectedIds.size === 0}
+            className="flex-1 py-4 bg-indigo-500 hover:bg-indigo-600 text-white font-bold rounded-2xl shadow-lg shadow-indigo-200 disabled:opacity-50 disabled:shadow-none transition-colors"
+          >
+            {t('records.stampSelected', { count: selectedIds.size })}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// 4. DeleteConfirmModal
+interface DeleteConfirmModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+  cardName?: string;
+  retentionDays: number;
+}
+
+const DeleteConfirmModal: React.FC<DeleteConfirmModalProps> = ({ 
+  isOpen, 
+  onClose, 
+  onConfirm, 
+  cardName,
+  retentionDays
+}) => {
+  const { t } = useI18n();
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-xs animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-2xl scale-100 animate-in zoom-in-95 duration-200">
+        <div className="w-12 h-12 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4 text-red-600">
+          <AlertCircle size={32} />
+        </div>
+        <h3 className="text-xl font-bold text-center text-gray-800 mb-2">{t('deleteModal.title')}</h3>
+        <p className="text-center text-gray-500 mb-6">
+          {t('deleteModal.message', { name: cardName ?? '' })}<br/>
+          {t('deleteModal.warning', { count: retentionDays })}
+        </p>
+        <div className="flex gap-3">
+          <button 
+            onClick={onClose}
+            className="flex-1 py-3 bg-gray-100 hover:bg-gray-200 text-gray-700 font-bold rounded-xl transition-colors"
+          >
+            {t('common.cancel')}
+          </button>
+          <button 
+            onClick={onConfirm}
+            className="flex-1 py-3 bg-red-500 hover:bg-red-600 text-white font-bold rounded-xl shadow-lg shadow-red-200 transition-colors"
+          >
+            {t('deleteModal.confirm')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 5. ShareModal (Enhanced with Simulation Mode)
+interface ShareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  shareUrl: string;
+  cardName: string;
+  keyFingerprint: string | null;
+  onSimulate: () => void;
+}
+
+const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, shareUrl, cardName, keyFingerprint, onSimulate }) => {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+  const [isQrFullscreen, setIsQrFullscreen] = useState(false);
+  const [qrError, setQrError] = useState(false);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  
+  // 偵測是否為 Blob URL (預覽環境)
+  const isPreviewEnvironment = typeof window !== 'undefined' && window.location.protocol === 'blob:';
+
+  const qrMatrix = useMemo(() => {
+    // 無法組出網址時 shareUrl 是手動複製的提示文字，不產生 QR code
+    if (isPreviewEnvironment || !/^https?:/.test(shareUrl)) return null;
+    try {
+      return createQrMatrix(shareUrl);
+    } catch (error) {
+      // 連結過長時無法放進 QR code，仍可用複製連結分享
+      console.error('產生 QR code 失敗', error);
+      return null;
+    }
+  }, [shareUrl, isPreviewEnvironment]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setCopied(false);
+      setIsQrFullscreen(false);
+      setQrError(false);
+    }
+  }, [isOpen]);
+
+  const handleSaveQr = async () => {
+    if (!qrMatrix) return;
+    setQrError(false);
+    try {
+      await downloadQrImage(qrMatrix, t('share.qrFileName', { name: cardName }));
+    } catch (error) {
+      console.error('儲存 QR code 失敗', error);
+      setQrError(true);
+    }
+  };
+
+  const handleCopy = () => {
+    if (navigator.clipboard && navigator.clipboard.writeText) {
+        navigator.clipboard.writeText(shareUrl)
+          .then(() => setCopied(true))
+          .catch(() => fallbackCopy());
+    } else {
+        fallbackCopy();
+    }
+  };
+
+  const fallbackCopy = () => {
+    if (inputRef.current) {
+        inputRef.current.select();
+        try {
+            document.execCommand('copy');
+            setCopied(true);
+        } catch (err) {
+            console.error('Copy failed', err);
+        }
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-xs animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-2xl scale-100 animate-in zoom-in-95 duration-200">
+        
+        {/* 標題與圖示 */}
+        <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4 text-blue-600">
+          <Share2 size={28} />
+        </div>
+        <h3 className="text-xl font-bold text-center text-gray-800 mb-2">{t('share.title')}</h3>
+        
+        {/* 預覽環境警告 */}
+        {isPreviewEnvironment && (
+           <div className="bg-orange-50 border border-orange-200 rounded-xl p-3 mb-4 text-sm text-orange-800 flex gap-2 items-start">
+             <AlertCircle size={16} className="mt-0.5 shrink-0" />
+             <div>
+               <strong>{t('share.previewWarningTitle')}</strong>
+               <p className="opacity-80 mt-1 text-xs">{t('share.previewWarning')}</p>
+             </div>
+           </div>
+        )}
+
+        {!isPreviewEnvironment && (
+            <p className="text-center text-gray-500 mb-6 text-sm">
+            {t('share.instructions')}<br/>
+            <span className="text-xs text-orange-400 mt-1 block">{t('share.snapshotNote')}</span>
+            </p>
+        )}
+        
+        {/* 簽章狀態 */}
+        <div className={`rounded-xl p-3 mb-4 text-xs flex gap-2 items-center ${keyFingerprint ? 'bg-emerald-50 text-emerald-800' : 'bg-gray-100 text-gray-500'}`}>
+          {keyFingerprint ? <ShieldCheck size={16} className="shrink-0" /> : <ShieldAlert size={16} className="shrink-0" />}
+          {keyFingerprint
+            ? <span>{t('share.signed')} <strong className="font-mono">{keyFingerprint}</strong></span>
+            : <span>{t('share.unsigned')}</span>}
+        </div>
+
+        {/* QR code (當面分享時讓家長直接掃描) */}
+        {qrMatrix && (
+          <div className="flex flex-col items-center mb-4">
+            <button
+              onClick={() => setIsQrFullscreen(true)}
+              className="p-2 bg-white rounded-2xl border border-gray-200 hover:border-blue-400 transition-colors"
+              title={t('share.qrFullscreen')}
+            >
+              <QrCode matrix={qrMatrix} className="w-44 h-44" />
+            </button>
+            <div className="flex gap-2 mt-3">
+              <button
+                onClick={() => setIsQrFullscreen(true)}
+                className="px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-bold rounded-xl flex items-center gap-1.5 transition-colors"
+              >
+                <Maximize2 size={16} /> {t('share.qrFullscreen')}
+              </button>
+              <button
+                onClick={handleSaveQr}
+                className="px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-bold rounded-xl flex items-center gap-1.5 transition-colors"
+              >
+                <Download size={16} /> {t('share.qrSave')}
+              </button>
+            </div>
+            {qrError && <p className="mt-2 text-xs font-bold text-red-500">{t('share.qrSaveError')}</p>}
+          </div>
+        )}
+
+        {/* 連結複製區 (如果在預覽環境則隱藏或 disable) */}
+        <textarea
+          ref={inputRef}
+          value={isPreviewEnvironment ? t('share.previewPlaceholder') : shareUrl}
+          readOnly
+          onClick={(e) => !isPreviewEnvironment && e.currentTarget.select()}
+          className={`w-full p-3 rounded-xl border mb-4 break-all text-xs font-mono h-24 overflow-y-auto resize-none focus:outline-hidden transition-colors
+            ${isPreviewEnvironment ? 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed' : 'bg-gray-50 text-gray-500 border-gray-200 focus:border-blue-500'}
+          `}
+        />
+
+        {/* 按鈕區 */}
+        <div className="flex flex-col gap-3">
+            {/* 模擬按鈕 */}
+            <button 
+                onClick={onSimulate}
+                className="w-full py-3 bg-indigo-500 hover:bg-indigo-600 text-white font-bold rounded-xl shadow-lg shadow-indigo-200 transition-all flex items-center justify-center gap-2"
+            >
+                <Eye size={20} /> {t('share.simulate')}
+            </button>
+
+            <div className="flex gap-3">
+                <button 
+                    onClick={onClose}
+                    className="flex-1 py-3 bg-gray-100 hover:bg-gray-200 text-gray-700 font-bold rounded-xl transition-colors"
+                >
+                    {t('common.close')}
+                </button>
+                <button 
+                    onClick={handleCopy}
+                    disabled={isPreviewEnvironment}
+                    className={`flex-1 py-3 font-bold rounded-xl shadow-lg transition-all flex items-center justify-center gap-2 ${
+                    copied 
+                        ? 'bg-green-500 hover:bg-green-600 text-white shadow-green-200' 
+                        : isPreviewEnvironment 
+                            ? 'bg-gray-300 text-gray-500 cursor-not-allowed shadow-none'
+                            : 'bg-blue-500 hover:bg-blue-600 text-white shadow-blue-200'
+                    }`}
+                >
+                    {copied ? (
+                    <>
+                        <Check size={20} /> {t('share.copied')}
+                    </>
+                    ) : (
+                    <>
+                        <Copy size={20} /> {t('share.copy')}
+                    </>
+                    )}
+                </button>
+            </div>
+        </div>
+      </div>
+
+      {/* 全螢幕 QR code，方便隔著桌子掃描 */}
+      {isQrFullscreen && qrMatrix && (
+        <div
+          className="fixed inset-0 z-[60] bg-white flex flex-col items-center justify-center p-6 animate-in fade-in duration-200"
+          onClick={() => setIsQrFullscreen(false)}
+        >
+          <QrCode matrix={qrMatrix} className="w-full max-w-[min(90vw,80vh)] h-auto" />
+          <p className="mt-6 text-2xl font-bold text-gray-800">{cardName}</p>
+          <p className="mt-2 text-gray-400">{t('share.qrTapToClose')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// 6. StudentReadOnlyView (Updated with Exit Button)
+interface StudentReadOnlyViewProps {
+  card: SharedCard;
+  onExitPreview?: () => void;
+}
+
+const StudentReadOnlyView: React.FC<StudentReadOnlyViewProps> = ({ card, onExitPreview }) => {
+  const i18n = useI18n();
+  const { t, formatDate } = i18n;
+  const [exportError, setExportError] = useState(false);
+  const themeHex = getThemeHex(card.themeColor);
+  const points = card.points || 0;
+  const goal = card.goal || DEFAULT_CARD_GOAL;
+  const stamps = card.stamps || Array(goal).fill(false);
+  const stampedCount = stamps.filter(Boolean).length;
+  const completedCount = card.completedRounds?.length || 0;
+  const rewards = card.rewards || [];
+  const badges = getSharedBadges(card.badges || []);
+  const encouragement = useEncouragement(getEncouragementRequest(card, rewards));
+
+  const handleDownloadImage = async () => {
+    setExportError(false);
+    try {
+      await downloadCardImage(card, i18n, encouragement);
+    } catch (error) {
+      console.error('匯出圖片失敗', error);
+      setExportError(true);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-[#f8f5f2] max-w-2xl mx-auto w-full shadow-2xl min-h-screen relative print:bg-white print:shadow-none print:min-h-0 print:max-w-none">
+       {/* 頂部標題 */}
+       <div className="p-6 pb-2 text-center print:hidden">
+         <div className="flex justify-end">
+           <LanguageSwitcher />
+         </div>
+         <h1 className="text-xl font-bold text-gray-400 uppercase tracking-widest">Student Rewards</h1>
+         <p className="text-gray-800 font-bold text-lg mt-1">{t('readOnly.previewMode')}</p>
+         <VerificationBadge verification={card.verification} keyFingerprint={card.keyFingerprint} />
+       </div>
+
+      {/* 擬真卡片區域 */}
+      <div className="flex-1 overflow-y-auto px-6 pb-10 pt-4 flex flex-col items-center no-scrollbar print:overflow-visible print:p-0">
+        <div className="w-full bg-[#fffdf9] rounded-[32px] overflow-hidden shadow-2xl relative transform transition-transform hover:scale-[1.01] duration-500 print:shadow-none print:border print:border-gray-200 print:break-inside-avoid">
+          <div className="absolute inset-0 opacity-40 pointer-events-none" style={{ backgroundImage: 'radial-gradient(#ddd 1px, transparent 0)', backgroundSize: '24px 24px' }}></div>
+          
+          <div className="relative p-10 pb-12 text-white" style={{ backgroundColor: themeHex }}>
+             <div className="relative z-10 flex justify-between items-start">
+                <div>
+                  <h1 className="text-4xl font-black tracking-wide mb-3 drop-shadow-md">{card.name}</h1>
+                  <p className="text-white/80 text-base font-medium tracking-wider uppercase">{t('card.label')}</p>
+                </div>
+                <div className="bg-white/20 backdrop-blur-xs px-4 py-2 rounded-xl border border-white/20 text-right">
+                  <span className="font-bold text-3xl">{points}</span>
+                  <span className="text-sm ml-2 opacity-80">{t('card.points')}</span>
+                  <p className="text-sm opacity-80">{t('card.stampProgress', { count: stampedCount, goal })}</p>
+                </div>
+             </div>
+             <div className="absolute bottom-[-24px] left-0 w-full h-12 bg-[#fffdf9] rounded-t-[50%]"></div>
+          </div>
+
+          <div className="p-8 pt-4 relative z-10">
+            <div className="grid grid-cols-5 gap-4">
+              {stamps.map((isStamped, index) => (
+                <div
+                  key={index}
+                  className={`
+                    aspect-square rounded-full flex items-center justify-center relative transition-all duration-300
+                    ${isStamped 
+                      ? 'bg-transparent' 
+                      : 'bg-gray-100/50 border-2 border-dashed border-gray-300'}
+                  `}
+                >
+                  {!isStamped && (
+                    <span className="text-gray-300 text-sm font-bold">{index + 1}</span>
+                  )}
+
+                  <RewardMarker reward={rewards.find(r => r.stamps === index + 1)} />
+                  
+                  {isStamped && (
+                    <div className="absolute inset-0 flex items-center justify-center animate-in zoom-in duration-500">
+                        <StampMark icon={card.stampIcon} color={themeHex} className="rotate-[-10deg]" />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {rewards.length > 0 && (
+            <div className="px-8 pb-4 relative z-10">
+              <ul className="space-y-2">
+                {rewards.map(reward => (
+                  <li key={reward.stamps} className="flex items-center justify-between bg-yellow-50/70 rounded-2xl px-4 py-3">
+                    <span className="flex items-center gap-2 font-bold text-gray-700">
+                      <Gift size={18} className="text-yellow-600" />
+                      {t('card.rewardTier', { stamps: reward.stamps, label: reward.label })}
+                    </span>
+                    <span className="text-sm font-bold text-gray-400">
+                      {reward.redeemed
+                        ? t('readOnly.rewardRedeemed')
+                        : stampedCount >= reward.stamps
+                          ? <span className="text-emerald-600">{t('readOnly.rewardReady')}</span>
+                          : t('readOnly.rewardRemaining', { count: reward.stamps - stampedCount })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {badges.length > 0 && (
+            <div className="px-8 pb-4 relative z-10">
+              <BadgeShelf badges={badges} />
+            </div>
+          )}
+
+          <div className="p-8 pt-2 text-center">
+             <p className="text-gray-500 text-base font-medium border-t border-gray-200 pt-6">
+               {encouragement}
+             </p>
+             <p className="hidden print:block text-gray-400 text-xs mt-2">
+               {t('export.date', { date: formatDate(new Date()) })}
+             </p>
+             {stampedCount >= goal && (
+               <div className="mt-6 bg-yellow-100 text-yellow-800 p-4 rounded-2xl text-lg font-bold animate-bounce print:animate-none flex items-center justify-center gap-2">
+                  <Trophy size={24} className="text-yellow-700" />
+                  {t('readOnly.completed')}
+               </div>
+             )}
+             {completedCount > 0 && (
+               <div className="mt-6 bg-yellow-50 text-yellow-800 p-4 rounded-2xl text-base font-bold flex items-center justify-center gap-2">
+                  <Trophy size={20} className="text-yellow-600" />
+                  {t('readOnly.completedRounds', { count: completedCount })}
+               </div>
+             )}
+          </div>
+        </div>
+
+        {/* 下載圖片與列印 */}
+        <div className="mt-8 w-full flex flex-wrap justify-center gap-3 print:hidden">
+          <button
+            onClick={handleDownloadImage}
+            className="px-5 py-3 bg-white hover:bg-gray-50 text-gray-700 font-bold rounded-2xl shadow-xs border border-gray-100 flex items-center gap-2 transition-colors"
+          >
+            <Download size={20} /> {t('export.image')}
+          </button>
+          {PRINT_PAGE_SIZES.map(pageSize => (
+            <button
+              key={pageSize}
+              onClick={() => printCard(pageSize)}
+              className="px-5 py-3 bg-white hover:bg-gray-50 text-gray-700 font-bold rounded-2xl shadow-xs border border-gray-100 flex items-center gap-2 transition-colors"
+            >
+              <Printer size={20} /> {t('export.print', { size: pageSize })}
+            </button>
+          ))}
+        </div>
+        {exportError && (
+          <p className="mt-3 text-sm font-bold text-red-500 print:hidden">{t('export.error')}</p>
+        )}
+
+        {/* 學生視角提示 */}
+        <div className="mt-8 p-4 bg-white rounded-2xl shadow-xs border border-gray-100 flex items-center gap-4 max-w-sm print:hidden">
+           <div className="w-10 h-10 bg-indigo-100 rounded-full flex items-center justify-center text-indigo-600 shrink-0">
+             <Sparkles size={20} />
+           </div>
+           <div>
+             <h3 className="font-bold text-gray-800">{t('readOnly.progressTitle')}</h3>
+             <p className="text-sm text-gray-400">{t('readOnly.progressHint')}</p>
+           </div>
+        </div>
+      </div>
+
+      {/* 退出預覽按鈕 (僅在模擬模式顯示) */}
+      {onExitPreview && (
+          <div className="fixed bottom-6 right-6 z-50 print:hidden">
+            <button 
+                onClick={onExitPreview}
+                className="bg-gray-800 hover:bg-black text-white px-6 py-4 rounded-full shadow-2xl font-bold flex items-center gap-3 transition-transform hover:scale-105 active:scale-95"
+            >
+                <LogOut size={20} />
+                {t('readOnly.exitPreview')}
+            </button>
+          </div>
+      )}
+    </div>
+  );
+};
+
+// 7. CardDetailView (Modified with Share)
+interface CardDetailViewProps extends BaseProps {
+  activeCard: Card | undefined;
+  onRequestDelete: (card: Card) => void;
+  onToggleStamp: (cardId: number, index: number, reason?: string, stampType?: StampType) => void;
+  onAdjustPoints: (cardId: number, amount: number, reason: string) => void;
+  onShare: (card: Card) => void;
+  justCompleted: boolean;
+  rewardTiers: RewardTier[];
+  onRedeem: (cardId: number, tierId: string, round: number) => void;
+  groups: Group[];
+  onToggleGroup: (cardId: number, groupId: string) => void;
+  lessons: Lesson[];
+  onAddLesson: (cardId: number, lesson: LessonDraft) => void;
+  onDeleteLesson: (lessonId: string) => void;
+  onChangeLocale: (cardId: number, locale: Locale | undefined) => void;
+  onChangeTheme: (cardId: number, theme: CardTheme) => void;
+  onEditProfile: () => void;
+  undoRedo: UndoRedoControls;
+}
+
+const CardDetailView: React.FC<CardDetailViewProps> = ({ 
+  activeCard, 
+  onNavigate, 
+  onRequestDelete, 
+  onToggleStamp,
+  onAdjustPoints,
+  onShare,
+  justCompleted,
+  rewardTiers,
+  onRedeem,
+  groups,
+  onToggleGroup,
+  lessons,
+  onAddLesson,
+  onDeleteLesson,
+  onChangeLocale,
+  onChangeTheme,
+  onEditProfile,
+  undoRedo
+}) => {
+  const { t, formatDate } = useI18n();
+  const [stampReason, setStampReason] = useState('');
+  const [stampType, setStampType] = useState<StampType>(DEFAULT_STAMP_TYPE);
+  // hook 必須在 activeCard 不存在而提早 return 之前呼叫
+  const encouragement = useEncouragement(
+    getEncouragementRequest(activeCard || {}, activeCard ? getSharedRewards(activeCard, rewardTiers) : [], justCompleted)
+  );
+
+  if (!activeCard) return null;
+  const themeHex = getThemeHex(activeCard.themeColor);
+
+  const rewards = getSharedRewards(activeCard, rewardTiers);
+  const pendingRewards = getPendingRewards(activeCard, rewardTiers);
+  const badges = computeBadges(activeCard, lessons);
+
+  const handleToggle = (index: number) => {
+    onToggleStamp(activeCard.id, index, stampReason.trim() || undefined, stampType);
+    setStampReason('');
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-[#2a2a2a] max-w-2xl mx-auto w-full shadow-2xl min-h-screen">
+      {/* 頂部工具列 */}
+      <div className="p-6 flex justify-between items-center z-20">
+        <button onClick={() => onNavigate('records')} className="w-14 h-14 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-white/20 transition-colors text-white border border-white/10">
+          <ArrowLeft size={28} />
+        </button>
+        
+        <UndoRedoButtons controls={undoRedo} dark />
+
+        <div className="flex gap-3">
+            <button 
+                onClick={onEditProfile}
+                className="w-14 h-14 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-white/20 transition-colors text-white border border-white/10"
+                title={t('profile.edit')}
+            >
+                <Pencil size={24} />
+            </button>
+            <button 
+                onClick={() => onShare(activeCard)}
+                className="w-14 h-14 bg-blue-500/80 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-blue-600/90 transition-colors text-white border border-white/10 shadow-lg"
+                title={t('detail.share')}
+            >
+                <Share2 size={24} />
+            </button>
+            <button 
+                onClick={() => onRequestDelete(activeCard)}
+                className="w-14 h-14 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-red-500/80 transition-colors text-white border border-white/10 group"
+            >
+                <Trash2 size={24} className="group-hover:scale-110 transition-transform" />
+            </button>
+        </div>
+      </div>
+
+      {/* 擬真卡片區域 */}
+      <div className="flex-1 overflow-y-auto px-6 pb-10 flex flex-col items-center no-scrollbar">
+        <div className="w-full bg-[#fffdf9] rounded-[32px] overflow-hidden shadow-2xl relative">
+          <div className="absolute inset-0 opacity-40 pointer-events-none" style={{ backgroundImage: 'radial-gradient(#ddd 1px, transparent 0)', backgroundSize: '24px 24px' }}></div>
+          
+          <div className="relative p-10 pb-12 text-white" style={{ backgroundColor: themeHex }}>
+             <div className="relative z-10 flex justify-between items-start">
+                <div className="flex items-center gap-4">
+                  {activeCard.profile.avatar && (
+                    <img src={activeCard.profile.avatar} alt="" className="w-16 h-16 rounded-2xl object-cover border-2 border-white/60 shadow-md" />
+                  )}
+                  <div>
+                    <h1 className="text-4xl font-black tracking-wide mb-3 drop-shadow-md">{activeCard.name}</h1>
+                    <p className="text-white/80 text-base font-medium tracking-wider uppercase">{t('card.roundLabel', { round: activeCard.round })}</p>
+                  </div>
+                </div>
+                <div className="bg-white/20 backdrop-blur-xs px-4 py-2 rounded-xl border border-white/20 text-right">
+                  <span className="font-bold text-3xl">{activeCard.points}</span>
+                  <span className="text-sm ml-2 opacity-80">{t('card.points')}</span>
+                  <p className="text-sm opacity-80">{t('card.stampProgress', { count: getStampedCount(activeCard), goal: activeCard.goal })}</p>
+                </div>
+             </div>
+             <div className="absolute bottom-[-24px] left-0 w-full h-12 bg-[#fffdf9] rounded-t-[50%]"></div>
+          </div>
+
+          <div className="p-8 pt-4 relative z-10">
+            <div className="grid grid-cols-5 gap-4">
+              {activeCard.stamps.map((isStamped, index) => (
+                <button
+                  key={index}
+                  onClick={() => handleToggle(index)}
+                  className={`
+                    aspect-square rounded-full flex items-center justify-center relative transition-all duration-300
+                    ${isStamped 
+                      ? 'bg-transparent scale-100' 
+                      : 'bg-gray-100/50 hover:bg-gray-100 border-2 border-dashed border-gray-300 active:scale-95'}
+                  `}
+                >
+                  {!isStamped && (
+                    <span className="text-gray-300 text-sm font-bold">{index + 1}</span>
+                  )}
+
+                  <RewardMarker reward={rewards.find(r => r.stamps === index + 1)} />
+                  
+                  <div 
+                    className={`absolute inset-0 flex items-center justify-center transition-all duration-300 ${isStamped ? 'opacity-100 scale-100 rotate-[-10deg]' : 'opacity-0 scale-150 rotate-12'}`}
+                  >
+                    <StampMark icon={activeCard.stampIcon} color={themeHex} />
+                  </div>
+
+                  {isStamped && getSlotStampType(activeCard, index) !== DEFAULT_STAMP_TYPE && (
+                    <span className="absolute -bottom-1 -left-1 px-1.5 h-6 rounded-full bg-gray-800 text-white text-xs font-bold flex items-center shadow-xs z-10">
+                      +{STAMP_TYPE_POINTS[getSlotStampType(activeCard, index)]}
+                    </span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="p-8 pt-2 text-center">
+             <p className="text-gray-500 text-base font-medium border-t border-gray-200 pt-6">
+               {encouragement}
+             </p>
+             {justCompleted && (
+               <div className="mt-6 bg-yellow-100 text-yellow-800 p-4 rounded-2xl text-lg font-bold animate-bounce flex items-center justify-center gap-2">
+                  <Trophy size={24} className="text-yellow-700" />
+                  {t('detail.justCompleted', { round: activeCard.round - 1 })}
+               </div>
+             )}
+          </div>
+        </div>
+        
+        <div className="w-full mt-8">
+          <StampTypePicker value={stampType} onChange={setStampType} dark />
+        </div>
+
+        <input
+          type="text"
+          value={stampReason}
+          onChange={(e) => setStampReason(e.target.value)}
+          placeholder={t('detail.reasonPlaceholder')}
+          className="w-full mt-4 px-5 py-4 bg-white/10 border border-white/10 rounded-2xl text-white placeholder:text-white/30 focus:outline-hidden focus:border-white/40 transition-colors"
+        />
+
+        <p className="text-gray-500 text-base mt-4 flex items-center gap-2 opacity-60">
+           <span className="w-5 h-5 rounded-full bg-white/20 text-white flex items-center justify-center text-xs font-serif">i</span>
+           {t('detail.tapHint')}
+        </p>
+
+        <div className="w-full mt-8 bg-white/5 rounded-3xl p-6 border border-white/10">
+          <h3 className="text-white font-bold text-xl mb-4 flex items-center gap-2">
+            <Medal size={22} className="text-white/60" />
+            {t('badge.title')}
+          </h3>
+          <BadgeShelf badges={badges} dark />
+        </div>
+
+        <PointLedger
+          balance={activeCard.points}
+          ledger={activeCard.pointLedger}
+          onAdjust={(amount, reason) => onAdjustPoints(activeCard.id, amount, reason)}
+        />
+
+        {groups.length > 0 && (
+          <div className="w-full mt-8 bg-white/5 rounded-3xl p-6 border border-white/10">
+            <h3 className="text-white font-bold text-xl mb-4 flex items-center gap-2">
+              <Users size={22} className="text-white/60" />
+              {t('detail.groups')}
+            </h3>
+            <div className="flex flex-wrap gap-2">
+              {groups.map(group => {
+                const isMember = activeCard.groupIds.includes(group.id);
+                return (
+                  <button
+                    key={group.id}
+                    onClick={() => onToggleGroup(activeCard.id, group.id)}
+                    className={`px-4 py-2 rounded-full font-bold transition-colors flex items-center gap-1 ${
+                      isMember ? 'bg-sky-500 text-white' : 'bg-white/10 text-white/60 hover:bg-white/20'
+                    }`}
+                  >
+                    {isMember && <Check size={16} />}
+                    {group.name}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {pendingRewards.length > 0 && (
+          <div className="w-full mt-8 bg-yellow-400/10 rounded-3xl p-6 border border-yellow-400/30">
+            <h3 className="text-white font-bold text-xl mb-4 flex items-center gap-2">
+              <Gift size={22} className="text-yellow-400" />
+              {t('detail.pendingRewards')}
+            </h3>
+            <ul className="space-y-3">
+              {pendingRewards.map(({ tier, round }) => (
+                <li key={`${round}-${tier.id}`} className="flex items-center justify-between gap-4">
+                  <span className="text-white/90 font-medium">
+                    {t('common.round', { round })} · {t('card.rewardTier', { stamps: tier.stamps, label: tier.label })}
+                  </span>
+                  <button
+                    onClick={() => onRedeem(activeCard.id, tier.id, round)}
+                    className="px-4 py-2 bg-yellow-400 hover:bg-yellow-500 text-yellow-900 font-bold rounded-xl transition-colors shrink-0"
+                  >
+                    {t('detail.redeem')}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {activeCard.redemptions.length > 0 && (
+          <div className="w-full mt-8 bg-white/5 rounded-3xl p-6 border border-white/10">
+            <h3 className="text-white font-bold text-xl mb-4 flex items-center gap-2">
+              <Gift size={22} className="text-white/60" />
+              {t('detail.redemptions')}
+            </h3>
+            <ul className="space-y-2">
+              {[...activeCard.redemptions].reverse().map(redemption => {
+                const tier = rewardTiers.find(t => t.id === redemption.tierId);
+                return (
+                  <li key={`${redemption.round}-${redemption.tierId}`} className="flex justify-between text-white/80">
+                    <span className="font-medium">{t('common.round', { round: redemption.round })} · {tier ? tier.label : t('detail.deletedReward')}</span>
+                    <span className="text-white/40 text-sm">
+                      {formatDate(redemption.redeemedAt)}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        {activeCard.completedRounds.length > 0 && (
+          <div className="w-full mt-8 bg-white/5 rounded-3xl p-6 border border-white/10">
+            <h3 className="text-white font-bold text-xl mb-4 flex items-center gap-2">
+              <Trophy size={22} className="text-yellow-400" />
+              {t('detail.completedRounds')}
+            </h3>
+            <ul className="space-y-2">
+              {[...activeCard.completedRounds].reverse().map(round => (
+                <li key={round.round} className="flex justify-between text-white/80">
+                  <span className="font-medium">{t('detail.completedRound', { round: round.round, goal: round.goal })}</span>
+                  <span className="text-white/40 text-sm">
+                    {t('detail.completedAt', { date: formatDate(round.completedAt) })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <ProfileSummary profile={activeCard.profile} onEdit={onEditProfile} />
+
+        <div className="w-full mt-8 bg-white/5 rounded-3xl p-6 border border-white/10">
+          <h3 className="text-white font-bold text-xl mb-4 flex items-center gap-2">
+            <Palette size={22} className="text-white/60" />
+            {t('theme.title')}
+          </h3>
+          <ThemePicker
+            theme={{ themeColor: activeCard.themeColor, stampIcon: activeCard.stampIcon }}
+            onChange={(theme) => onChangeTheme(activeCard.id, theme)}
+            dark
+          />
+        </div>
+
+        <div className="w-full mt-8 bg-white/5 rounded-3xl p-6 border border-white/10">
+          <h3 className="text-white font-bold text-xl mb-4 flex items-center gap-2">
+            <Languages size={22} className="text-white/60" />
+            {t('detail.shareLanguage')}
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {[undefined, ...LOCALES].map(locale => (
+              <button
+                key={locale ?? 'auto'}
+                onClick={() => onChangeLocale(activeCard.id, locale)}
+                className={`px-4 py-2 rounded-full font-bold transition-colors ${
+                  activeCard.locale === locale ? 'bg-sky-500 text-white' : 'bg-white/10 text-white/60 hover:bg-white/20'
+                }`}
+              >
+                {locale ? LOCALE_LABELS[locale] : t('detail.shareLanguageAuto')}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <LessonLog
+          lessons={lessons}
+          onAdd={(lesson) => onAddLesson(activeCard.id, lesson)}
+          onDelete={onDeleteLesson}
+        />
+
+        <StampTimeline history={activeCard.history} />
+      </div>
+    </div>
+  );
+};
+
+// 8. StampTimeline (蓋章紀錄，依日期分組)
+interface StampTimelineProps {
+  history: StampEvent[];
+}
+
+const StampTimeline: React.FC<StampTimelineProps> = ({ history }) => {
+  const { t, formatDate } = useI18n();
+  // 新的事件在前，並依日期分組
+  const groups: { date: string; events: StampEvent[] }[] = [];
+  [...history]
+    .sort((a, b) => b.at.localeCompare(a.at))
+    .forEach(event => {
+      const date = formatDate(event.at);
+      const last = groups[groups.length - 1];
+      if (last && last.date === date) {
+        last.events.push(event);
+      } else {
+        groups.push({ date, events: [event] });
+      }
+    });
+
+  return (
+    <div className="w-full mt-8 bg-white/5 rounded-3xl p-6 border border-white/10">
+      <h3 className="text-white font-bold text-xl mb-4 flex items-center gap-2">
+        <History size={22} className="text-white/60" />
+        {t('timeline.title')}
+      </h3>
+
+      {groups.length === 0 ? (
+        <p className="text-white/40 text-base">{t('timeline.empty')}</p>
+      ) : (
+        <div className="space-y-6">
+          {groups.map(group => (
+            <div key={group.date}>
+              <p className="text-white/40 text-sm font-bold mb-2">{group.date}</p>
+              <ul className="space-y-2">
+                {group.events.map(event => (
+                  <li key={event.id} className="flex items-start gap-3 text-white/80">
+                    <span className={`mt-1 w-6 h-6 rounded-full flex items-center justify-center shrink-0 ${event.stamped ? 'bg-emerald-500/80' : 'bg-gray-500/60'}`}>
+                      {event.stamped ? <Check size={14} /> : <X size={14} />}
+                    </span>
+                    <div className="flex-1">
+                      <p className="font-medium">
+                        {event.round && `${t('common.round', { round: event.round })} · `}
+                        {t(event.stamped ? 'timeline.stamped' : 'timeline.unstamped', { index: event.index + 1 })}
+                        <span className="text-white/40 text-sm ml-2">
+                          {formatDate(event.at, { hour: '2-digit', minute: '2-digit' })}
+                          {' · '}
+                          {t(`timeline.source.${event.source}`)}
+                        </span>
+                      </p>
+                      {event.reason && <p className="text-white/50 text-sm">{event.reason}</p>}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// 9. RewardMarker (集點格上的獎勵標記)
+interface RewardMarkerProps {
+  reward?: SharedReward;
+}
+
+const RewardMarker: React.FC<RewardMarkerProps> = ({ reward }) => {
+  if (!reward) return null;
+
+  return (
+    <span
+      title={reward.label}
+      className={`absolute -top-1 -right-1 w-6 h-6 rounded-full flex items-center justify-center shadow-xs z-10 ${
+        reward.redeemed ? 'bg-gray-300 text-white' : 'bg-yellow-400 text-yellow-900'
+      }`}
+    >
+      <Gift size={14} />
+    </span>
+  );
+};
+
+// 10. RewardSettingsView
+interface RewardSettingsViewProps extends BaseProps {
+  tiers: RewardTier[];
+  onChange: (tiers: RewardTier[]) => void;
+  geminiApiKey: string;
+  onGeminiApiKeyChange: (apiKey: string) => void;
+}
+
+const RewardSettingsView: React.FC<RewardSettingsViewProps> = ({
+  onNavigate,
+  tiers,
+  onChange,
+  geminiApiKey,
+  onGeminiApiKeyChange
+}) => {
+  const { t } = useI18n();
+  const [apiKeyDraft, setApiKeyDraft] = useState(geminiApiKey);
+  // 編輯中的格數先存成字串，離開欄位才套用並重新排序，避免輸入兩位數時清空或跳行
+  const [stampDrafts, setStampDrafts] = useState<Record<string, string>>({});
+
+  const updateTier = (id: string, changes: Partial<RewardTier>) => {
+    onChange(tiers.map(tier => tier.id === id ? { ...tier, ...changes } : tier));
+  };
+
+  const commitStampDraft = (tier: RewardTier) => {
+    const draft = stampDrafts[tier.id];
+    if (draft === undefined) return;
+    setStampDrafts(({ [tier.id]: _, ...rest }) => rest);
+    const stamps = Math.floor(Number(draft));
+    if (draft.trim() === '' || !Number.isFinite(stamps)) return;
+    if (Math.max(1, stamps) !== tier.stamps) updateTier(tier.id, { stamps: Math.max(1, stamps) });
+  };
+
+  const addTier = () => {
+    const maxStamps = tiers.reduce((max, tier) => Math.max(max, tier.stamps), 0);
+    onChange([...tiers, { id: createId(), stamps: maxStamps + 5, label: '' }]);
+  };
+
+  const removeTier = (id: string) => {
+    onChange(tiers.filter(tier => tier.id !== id));
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-[#f8f5f2] max-w-2xl mx-auto w-full shadow-2xl min-h-screen">
+      <div className="p-6 pb-4 flex items-center gap-4">
+        <button onClick={() => onNavigate('home')} className="w-14 h-14 bg-white rounded-full flex items-center justify-center shadow-xs hover:bg-gray-50 transition-colors">
+          <ArrowLeft size={28} className="text-gray-600" />
+        </button>
+        <h2 className="text-2xl font-bold text-gray-800">{t('rewards.title')}</h2>
+      </div>
 
-interface Card {
-  id: number;
-  name: string;
-  points: number;
-  stamps: boolean[];
-  createdAt: string;
-  themeColor: string;
-}
+      <div className="flex-1 overflow-y-auto px-8 py-4 space-y-4 pb-20 no-scrollbar">
+        <p className="text-gray-500">{t('rewards.description')}</p>
 
-interface BaseProps {
-  onNavigate: (view: ViewType) => void;
-}
+        {[...tiers].sort((a, b) => a.stamps - b.stamps).map(tier => (
+          <div key={tier.id} className="bg-white p-5 rounded-3xl shadow-xs border border-gray-100 flex items-center gap-4">
+            <div className="flex items-center gap-2 shrink-0">
+              <input
+                type="number"
+                min={1}
+                value={stampDrafts[tier.id] ?? tier.stamps}
+                onChange={(e) => setStampDrafts(drafts => ({ ...drafts, [tier.id]: e.target.value }))}
+                onBlur={() => commitStampDraft(tier)}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                className="w-20 text-xl py-3 px-3 bg-gray-50 border-2 border-transparent rounded-2xl focus:bg-white focus:border-yellow-400 focus:outline-hidden font-bold text-gray-800 text-center"
+              />
+              <span className="text-gray-400 font-bold">{t('rewards.stampsUnit')}</span>
+            </div>
+            <input
+              type="text"
+              value={tier.label}
+              onChange={(e) => updateTier(tier.id, { label: e.target.value })}
+              placeholder={t('rewards.labelPlaceholder')}
+              className="flex-1 min-w-0 text-xl py-3 px-4 bg-gray-50 border-2 border-transparent rounded-2xl focus:bg-white focus:border-yellow-400 focus:outline-hidden font-bold text-gray-800 placeholder:text-gray-300"
+            />
+            <button
+              onClick={() => removeTier(tier.id)}
+              className="w-12 h-12 flex items-center justify-center rounded-full text-gray-300 hover:text-red-600 hover:bg-red-50 transition-colors shrink-0"
+              title={t('common.delete')}
+              type="button"
+            >
+              <Trash2 size={24} />
+            </button>
+          </div>
+        ))}
 
-// --- Helper Functions for Sharing (Optimized) ---
+        <button
+          onClick={addTier}
+          className="w-full py-5 bg-white text-yellow-600 font-bold rounded-3xl text-lg shadow-xs border-2 border-dashed border-yellow-200 hover:border-yellow-400 transition-all flex items-center justify-center gap-2"
+        >
+          <Plus size={24} /> {t('rewards.add')}
+        </button>
 
-// V2 壓縮版：將卡片資料編碼成極短的 Base64 字串
-const encodeCardData = (card: Card): string => {
-  const stampsBitmap = card.stamps.reduce((acc, val, i) => acc | (val ? (1 << i) : 0), 0);
-  const colorIndex = THEME_COLORS.indexOf(card.themeColor);
-  const data = [
-    card.name,
-    stampsBitmap,
-    colorIndex >= 0 ? colorIndex : 0, 
-    card.createdAt
-  ];
-  return btoa(encodeURIComponent(JSON.stringify(data)));
+        <div className="bg-white p-6 rounded-3xl shadow-xs border border-gray-100 space-y-3">
+          <h3 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <Sparkles size={22} className="text-violet-500" />
+            {t('encouragement.settingsTitle')}
+          </h3>
+          <p className="text-gray-500 text-sm">{t('encouragement.settingsDescription')}</p>
+          <input
+            type="password"
+            value={apiKeyDraft}
+            onChange={(e) => setApiKeyDraft(e.target.value)}
+            placeholder={t('encouragement.apiKeyPlaceholder')}
+            autoComplete="off"
+            className="w-full text-base py-3 px-4 bg-gray-50 border-2 border-transparent rounded-2xl focus:bg-white focus:border-violet-400 focus:outline-hidden text-gray-800 placeholder:text-gray-300"
+          />
+          <div className="flex gap-3">
+            <button
+              onClick={() => onGeminiApiKeyChange(apiKeyDraft.trim())}
+              disabled={apiKeyDraft.trim() === geminiApiKey}
+              className="flex-1 py-3 bg-violet-500 hover:bg-violet-600 text-white font-bold rounded-2xl transition-colors disabled:opacity-40"
+            >
+              {t('encouragement.saveApiKey')}
+            </button>
+            {geminiApiKey && (
+              <button
+                onClick={() => {
+                  setApiKeyDraft('');
+                  onGeminiApiKeyChange('');
+                }}
+                className="px-5 py-3 bg-gray-100 hover:bg-gray-200 text-gray-600 font-bold rounded-2xl transition-colors"
+              >
+                {t('encouragement.removeApiKey')}
+              </button>
+            )}
+          </div>
+          <p className="text-sm font-bold text-gray-400">
+            {geminiApiKey ? t('encouragement.usingGemini') : t('encouragement.usingTemplates')}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
 };
 
-// V2 解碼版
-const decodeCardData = (encoded: string): Partial<Card> | null => {
-  try {
-    const json = decodeURIComponent(atob(encoded));
-    const data = JSON.parse(json);
-    
-    if (Array.isArray(data)) {
-      const [name, stampsBitmap, colorIndex, createdAt] = data;
-      const stamps = Array(30).fill(false).map((_, i) => !!((stampsBitmap >> i) & 1));
-      const points = stamps.filter(Boolean).length;
-      const themeColor = THEME_COLORS[colorIndex] || THEME_COLORS[0];
+// 11. VerificationBadge (分享連結的簽章驗證結果)
+interface VerificationBadgeProps {
+  verification?: ShareVerification;
+  keyFingerprint?: string;
+}
+
+const VerificationBadge: React.FC<VerificationBadgeProps> = ({ verification, keyFingerprint }) => {
+  const { t } = useI18n();
+  const [tutorFingerprint, setTutorFingerprint] = useState(() => localStorage.getItem(TUTOR_FINGERPRINT_STORAGE_KEY) || '');
+  const [fingerprintDraft, setFingerprintDraft] = useState('');
 
-      return { name, points, stamps, themeColor, createdAt, id: 0 };
+  const saveTutorFingerprint = (value: string) => {
+    if (value) {
+      localStorage.setItem(TUTOR_FINGERPRINT_STORAGE_KEY, value);
     } else {
-      // Legacy support for older V1 format if needed, or structured object
-      return {
-        name: data.n,
-        points: data.p,
-        stamps: data.s,
-        themeColor: data.t,
-        createdAt: data.d,
-        id: 0
-      };
+      localStorage.removeItem(TUTOR_FINGERPRINT_STORAGE_KEY);
     }
-  } catch (e) {
-    console.error("Failed to decode card data", e);
-    return null;
+    setTutorFingerprint(value);
+    setFingerprintDraft('');
+  };
+
+  if (verification === 'signed' && keyFingerprint) {
+    const isMatch = !!tutorFingerprint && normalizeFingerprint(tutorFingerprint) === normalizeFingerprint(keyFingerprint);
+    const badgeClass = !tutorFingerprint
+      ? 'bg-amber-100 text-amber-800'
+      : isMatch ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700';
+
+    return (
+      <div className="mt-3 flex flex-col items-center gap-2">
+        <div className={`inline-flex flex-wrap items-center justify-center gap-2 px-4 py-2 rounded-full text-sm font-bold ${badgeClass}`}>
+          {isMatch ? <ShieldCheck size={18} /> : <ShieldAlert size={18} />}
+          {!tutorFingerprint
+            ? t('verification.signed')
+            : isMatch ? t('verification.matched') : t('verification.mismatch')}
+          <span className="font-mono text-xs opacity-70">{keyFingerprint}</span>
+        </div>
+        {tutorFingerprint ? (
+          <button onClick={() => saveTutorFingerprint('')} className="text-xs text-gray-400 underline">
+            {t('verification.clearFingerprint')}
+          </button>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (normalizeFingerprint(fingerprintDraft)) saveTutorFingerprint(fingerprintDraft.trim());
+            }}
+            className="flex gap-2"
+          >
+            <input
+              type="text"
+              value={fingerprintDraft}
+              onChange={(e) => setFingerprintDraft(e.target.value)}
+              placeholder={t('verification.fingerprintPlaceholder')}
+              className="px-3 py-2 rounded-xl bg-white border border-gray-200 text-sm font-mono focus:outline-hidden focus:border-gray-400"
+            />
+            <button
+              type="submit"
+              disabled={!normalizeFingerprint(fingerprintDraft)}
+              className="px-3 py-2 rounded-xl bg-gray-800 text-white text-sm font-bold disabled:opacity-40"
+            >
+              {t('verification.saveFingerprint')}
+            </button>
+          </form>
+        )}
+      </div>
+    );
   }
-};
 
-// --- Components ---
+  if (verification === 'modified') {
+    return (
+      <div className="mt-3 inline-flex items-center gap-2 px-4 py-2 rounded-full bg-red-100 text-red-700 text-sm font-bold">
+        <ShieldAlert size={18} />
+        {t('verification.modified')}
+      </div>
+    );
+  }
 
-// 1. HomeView
-interface HomeViewProps extends BaseProps {
-  cardCount: number;
+  return (
+    <div className="mt-3 inline-flex items-center gap-2 px-4 py-2 rounded-full bg-gray-100 text-gray-500 text-sm font-bold">
+      <ShieldAlert size={18} />
+      {t('verification.unsigned')}
+    </div>
+  );
+};
+
+// 12. BackupView (備份匯出與匯入)
+interface BackupViewProps extends BaseProps {
+  data: BackupData;
+  onImport: (data: BackupData) => void;
 }
 
-const HomeView: React.FC<HomeViewProps> = ({ onNavigate, cardCount }) => {
+const BackupView: React.FC<BackupViewProps> = ({ onNavigate, data, onImport }) => {
+  const { t, formatDate } = useI18n();
+  const { cards, rewardTiers, groups, lessons } = data;
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [useIncoming, setUseIncoming] = useState<Set<number>>(new Set());
+  const [confirmReplace, setConfirmReplace] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const diff = backup ? diffBackup(cards, backup.cards) : null;
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(
+      `student-rewards-backup-${date}.json`,
+      JSON.stringify(createBackup(data), null, 2),
+      'application/json'
+    );
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setMessage(null);
+    setConfirmReplace(false);
+    setUseIncoming(new Set());
+    try {
+      setBackup(parseBackup(await file.text(), t));
+      setError(null);
+    } catch (err) {
+      setBackup(null);
+      setError(err instanceof Error ? err.message : t('backup.error.unreadable'));
+    }
+  };
+
+  const toggleConflict = (id: number) => {
+    const next = new Set(useIncoming);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setUseIncoming(next);
+  };
+
+  const handleMerge = () => {
+    if (!backup || !diff) return;
+    const existingTierIds = new Set(rewardTiers.map(tier => tier.id));
+    const existingGroupIds = new Set(groups.map(group => group.id));
+    const existingLessonIds = new Set(lessons.map(lesson => lesson.id));
+    onImport({
+      cards: mergeBackup(cards, diff, useIncoming),
+      rewardTiers: [...rewardTiers, ...backup.rewardTiers.filter(tier => !existingTierIds.has(tier.id))],
+      groups: [...groups, ...backup.groups.filter(group => !existingGroupIds.has(group.id))],
+      lessons: [...lessons, ...backup.lessons.filter(lesson => !existingLessonIds.has(lesson.id))]
+    });
+    setBackup(null);
+    setMessage(t('backup.merged', { added: diff.added.length, updated: diff.changed.length + useIncoming.size }));
+  };
+
+  const handleReplace = () => {
+    if (!backup) return;
+    if (!confirmReplace) {
+      setConfirmReplace(true);
+      return;
+    }
+    onImport({
+      cards: backup.cards,
+      rewardTiers: backup.rewardTiers.length > 0 ? backup.rewardTiers : rewardTiers,
+      groups: backup.groups,
+      lessons: backup.lessons
+    });
+    setBackup(null);
+    setConfirmReplace(false);
+    setMessage(t('backup.replaced', { count: backup.cards.length }));
+  };
+
   return (
     <div className="flex flex-col h-full bg-[#f8f5f2] max-w-2xl mx-auto w-full shadow-2xl min-h-screen">
-      <div className="bg-white p-10 rounded-b-[40px] shadow-sm mb-8 relative overflow-hidden">
-        <div className="absolute top-[-20px] right-[-20px] w-40 h-40 bg-yellow-100 rounded-full opacity-50 blur-xl"></div>
-        <div className="absolute top-[40px] left-[-20px] w-32 h-32 bg-rose-100 rounded-full opacity-50 blur-xl"></div>
-        
-        <div className="relative z-10">
-          <h1 className="text-4xl font-black text-gray-800 tracking-tight mb-3">
-            Student Rewards <span className="text-rose-500">.</span>
-          </h1>
-          <p className="text-gray-500 text-xl font-medium">家教學生集點簿</p>
-        </div>
+      <div className="p-6 pb-4 flex items-center gap-4">
+        <button onClick={() => onNavigate('home')} className="w-14 h-14 bg-white rounded-full flex items-center justify-center shadow-xs hover:bg-gray-50 transition-colors">
+          <ArrowLeft size={28} className="text-gray-600" />
+        </button>
+        <h2 className="text-2xl font-bold text-gray-800">{t('backup.title')}</h2>
       </div>
 
-      <div className="flex-1 px-8 flex flex-col gap-6 overflow-y-auto pb-10">
-        <button 
-          onClick={() => onNavigate('create')}
-          className="group w-full bg-white p-8 rounded-3xl shadow-sm hover:shadow-lg transition-all border border-gray-100 flex justify-between items-center cursor-pointer"
-        >
-          <div className="flex items-center gap-6">
-            <div className="w-16 h-16 bg-rose-100 rounded-2xl flex items-center justify-center text-rose-600">
-              <Plus size={32} strokeWidth={3} />
+      <div className="flex-1 overflow-y-auto px-8 py-4 space-y-6 pb-20 no-scrollbar">
+        <div className="bg-white p-6 rounded-3xl shadow-xs border border-gray-100">
+          <h3 className="text-xl font-bold text-gray-800 mb-2">{t('backup.export.title')}</h3>
+          <p className="text-gray-500 mb-4">{t('backup.export.description', { count: cards.length })}</p>
+          <button
+            onClick={handleExport}
+            className="w-full py-4 bg-emerald-500 hover:bg-emerald-600 text-white font-bold rounded-2xl shadow-lg shadow-emerald-200 transition-colors flex items-center justify-center gap-2"
+          >
+            <Download size={22} /> {t('backup.export.button')}
+          </button>
+        </div>
+
+        <div className="bg-white p-6 rounded-3xl shadow-xs border border-gray-100">
+          <h3 className="text-xl font-bold text-gray-800 mb-2">{t('backup.import.title')}</h3>
+          <p className="text-gray-500 mb-4">{t('backup.import.description')}</p>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleFileChange} className="hidden" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full py-4 bg-gray-100 hover:bg-gray-200 text-gray-700 font-bold rounded-2xl transition-colors flex items-center justify-center gap-2"
+          >
+            <Upload size={22} /> {t('backup.import.button')}
+          </button>
+
+          {error && (
+            <div className="mt-4 bg-red-50 border border-red-200 rounded-xl p-3 text-sm text-red-700 flex gap-2 items-start">
+              <AlertCircle size={16} className="mt-0.5 shrink-0" />
+              {error}
             </div>
-            <div className="text-left">
-              <h2 className="text-2xl font-bold text-gray-800">新增學生</h2>
-              <p className="text-gray-400 text-lg mt-1">建立新的集點卡</p>
+          )}
+          {message && (
+            <div className="mt-4 bg-emerald-50 border border-emerald-200 rounded-xl p-3 text-sm text-emerald-700 flex gap-2 items-center">
+              <Check size={16} className="shrink-0" />
+              {message}
             </div>
-          </div>
-          <ChevronRight className="text-gray-300" size={32} />
-        </button>
+          )}
+        </div>
 
-        <button 
-          onClick={() => onNavigate('records')}
-          className="group w-full bg-white p-8 rounded-3xl shadow-sm hover:shadow-lg transition-all border border-gray-100 flex justify-between items-center cursor-pointer"
-        >
-          <div className="flex items-center gap-6">
-            <div className="w-16 h-16 bg-indigo-100 rounded-2xl flex items-center justify-center text-indigo-600">
-              <List size={32} strokeWidth={3} />
+        {backup && diff && (
+          <div className="bg-white p-6 rounded-3xl shadow-xs border border-gray-100 space-y-5">
+            <div>
+              <h3 className="text-xl font-bold text-gray-800">{t('backup.diff.title')}</h3>
+              {backup.exportedAt && (
+                <p className="text-sm text-gray-400 mt-1">
+                  {t('backup.diff.exportedAt', {
+                    date: formatDate(backup.exportedAt, { dateStyle: 'medium', timeStyle: 'short' })
+                  })}
+                </p>
+              )}
             </div>
-            <div className="text-left">
-              <h2 className="text-2xl font-bold text-gray-800">學生列表</h2>
-              <p className="text-gray-400 text-lg mt-1">查看 {cardCount} 位學生的進度</p>
+
+            <div className="grid grid-cols-4 gap-2 text-center">
+              {[
+                { label: t('backup.diff.added'), count: diff.added.length, color: 'text-emerald-600' },
+                { label: t('backup.diff.changed'), count: diff.changed.length, color: 'text-indigo-600' },
+                { label: t('backup.diff.conflicts'), count: diff.conflicts.length, color: 'text-orange-600' },
+                { label: t('backup.diff.unchanged'), count: diff.unchanged.length, color: 'text-gray-400' }
+              ].map(item => (
+                <div key={item.label} className="bg-gray-50 rounded-2xl py-3">
+                  <p className={`text-2xl font-black ${item.color}`}>{item.count}</p>
+                  <p className="text-sm text-gray-500 font-bold">{item.label}</p>
+                </div>
+              ))}
+            </div>
+
+            {diff.added.length > 0 && (
+              <div>
+                <p className="text-sm font-bold text-gray-500 mb-2">{t('backup.diff.addedList')}</p>
+                <p className="text-gray-700">{diff.added.map(card => card.name).join(t('common.listSeparator'))}</p>
+              </div>
+            )}
+
+            {diff.changed.length > 0 && (
+              <div>
+                <p className="text-sm font-bold text-gray-500 mb-2">{t('backup.diff.changedList')}</p>
+                <p className="text-gray-700">{diff.changed.map(card => card.name).join(t('common.listSeparator'))}</p>
+              </div>
+            )}
+
+            {diff.conflicts.length > 0 && (
+              <div>
+                <p className="text-sm font-bold text-gray-500 mb-2">{t('backup.diff.conflictList')}</p>
+                <ul className="space-y-2">
+                  {diff.conflicts.map(({ local, incoming }) => (
+                    <li key={local.id} className="flex items-center justify-between gap-3 bg-orange-50 rounded-2xl px-4 py-3">
+                      <div className="min-w-0">
+                        <p className="font-bold text-gray-800 truncate">
+                          {local.name}{local.name !== incoming.name && ` → ${incoming.name}`}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {t('backup.diff.conflictDetail', {
+                            localPoints: local.points,
+                            localGoal: local.goal,
+                            incomingPoints: incoming.points,
+                            incomingGoal: incoming.goal
+                          })}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => toggleConflict(local.id)}
+                        className={`px-3 py-2 rounded-xl text-sm font-bold shrink-0 transition-colors ${
+                          useIncoming.has(local.id) ? 'bg-orange-500 text-white' : 'bg-white text-gray-600 border border-gray-200'
+                        }`}
+                      >
+                        {useIncoming.has(local.id) ? t('backup.diff.useIncoming') : t('backup.diff.keepLocal')}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex flex-col gap-3 pt-2">
+              <button
+                onClick={handleMerge}
+                className="w-full py-4 bg-indigo-500 hover:bg-indigo-600 text-white font-bold rounded-2xl shadow-lg shadow-indigo-200 transition-colors"
+              >
+                {t('backup.merge')}
+              </button>
+              <button
+                onClick={handleReplace}
+                className={`w-full py-4 font-bold rounded-2xl transition-colors ${
+                  confirmReplace ? 'bg-red-500 hover:bg-red-600 text-white shadow-lg shadow-red-200' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+              >
+                {confirmReplace ? t('backup.replaceConfirm', { count: cards.length }) : t('backup.replace')}
+              </button>
             </div>
           </div>
-          <ChevronRight className="text-gray-300" size={32} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+// 13. GroupsView (管理班級/分組)
+interface GroupsViewProps extends BaseProps {
+  groups: Group[];
+  cards: Card[];
+  onChange: (groups: Group[]) => void;
+}
+
+const GroupsView: React.FC<GroupsViewProps> = ({ onNavigate, groups, cards, onChange }) => {
+  const { t } = useI18n();
+  const [newGroupName, setNewGroupName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newGroupName.trim()) return;
+    onChange([...groups, { id: createId(), name: newGroupName.trim() }]);
+    setNewGroupName('');
+  };
+
+  const startEditing = (group: Group) => {
+    setEditingId(group.id);
+    setEditingName(group.name);
+  };
+
+  const saveEditing = () => {
+    if (editingId && editingName.trim()) {
+      onChange(groups.map(group => group.id === editingId ? { ...group, name: editingName.trim() } : group));
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-[#f8f5f2] max-w-2xl mx-auto w-full shadow-2xl min-h-screen">
+      <div className="p-6 pb-4 flex items-center gap-4">
+        <button onClick={() => onNavigate('home')} className="w-14 h-14 bg-white rounded-full flex items-center justify-center shadow-xs hover:bg-gray-50 transition-colors">
+          <ArrowLeft size={28} className="text-gray-600" />
         </button>
+        <h2 className="text-2xl font-bold text-gray-800">{t('groups.title')}</h2>
+      </div>
 
-        <div className="mt-auto mb-10 flex justify-center opacity-10">
-            <GraduationCap size={150} className="text-gray-400" />
+      <div className="flex-1 overflow-y-auto px-8 py-4 space-y-4 pb-20 no-scrollbar">
+        <form onSubmit={handleAdd} className="flex gap-3">
+          <input
+            type="text"
+            value={newGroupName}
+            onChange={(e) => setNewGroupName(e.target.value)}
+            placeholder={t('groups.namePlaceholder')}
+            className="flex-1 min-w-0 text-xl py-4 px-5 bg-white border-2 border-transparent rounded-2xl focus:border-sky-400 focus:outline-hidden font-bold text-gray-800 placeholder:text-gray-300 shadow-xs"
+          />
+          <button
+            type="submit"
+            disabled={!newGroupName.trim()}
+            className="px-6 bg-sky-500 hover:bg-sky-600 text-white font-bold rounded-2xl shadow-lg shadow-sky-200 disabled:opacity-50 disabled:shadow-none transition-colors flex items-center gap-2"
+          >
+            <Plus size={22} /> {t('common.add')}
+          </button>
+        </form>
+
+        {groups.length === 0 && (
+          <p className="text-gray-400 text-center pt-10">{t('groups.empty')}</p>
+        )}
+
+        {groups.map(group => (
+          <div key={group.id} className="bg-white p-5 rounded-3xl shadow-xs border border-gray-100 flex items-center gap-4">
+            {editingId === group.id ? (
+              <input
+                type="text"
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onBlur={saveEditing}
+                onKeyDown={(e) => e.key === 'Enter' && saveEditing()}
+                className="flex-1 min-w-0 text-xl py-2 px-3 bg-gray-50 border-2 border-sky-400 rounded-xl focus:outline-hidden font-bold text-gray-800"
+                autoFocus
+              />
+            ) : (
+              <div className="flex-1 min-w-0">
+                <p className="text-xl font-bold text-gray-800 truncate">{group.name}</p>
+                <p className="text-sm text-gray-400">{t('common.studentCount', { count: cards.filter(card => card.groupIds.includes(group.id)).length })}</p>
+              </div>
+            )}
+            <button
+              onClick={() => startEditing(group)}
+              className="w-12 h-12 flex items-center justify-center rounded-full text-gray-300 hover:text-sky-600 hover:bg-sky-50 transition-colors shrink-0"
+              title={t('groups.rename')}
+              type="button"
+            >
+              <Pencil size={22} />
+            </button>
+            <button
+              onClick={() => onChange(groups.filter(g => g.id !== group.id))}
+              className="w-12 h-12 flex items-center justify-center rounded-full text-gray-300 hover:text-red-600 hover:bg-red-50 transition-colors shrink-0"
+              title={t('common.delete')}
+              type="button"
+            >
+              <Trash2 size={22} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// 14. ClassSessionView (課堂模式：一次幫多位學生蓋章)
+interface ClassSessionViewProps extends BaseProps {
+  cards: Card[];
+  sessionCardIds: number[];
+  onConfirm: (counts: Map<number, number>, reason: string | undefined, stampType: StampType) => void;
+  onRevertBatch: (batchId: string) => number;
+}
+
+const ClassSessionView: React.FC<ClassSessionViewProps> = ({
+  onNavigate,
+  cards,
+  sessionCardIds,
+  onConfirm,
+  onRevertBatch
+}) => {
+  const { t, formatDate } = useI18n();
+  const sessionCards = cards.filter(card => sessionCardIds.includes(card.id));
+  const [counts, setCounts] = useState<Map<number, number>>(() => new Map(sessionCardIds.map(id => [id, 1])));
+  const [reason, setReason] = useState('');
+  const [stampType, setStampType] = useState<StampType>(DEFAULT_STAMP_TYPE);
+  const [confirmRevertId, setConfirmRevertId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const batches = getStampBatches(cards).slice(0, 10);
+
+  const totalStamps = [...counts.values()].reduce((sum, count) => sum + count, 0);
+
+  const setCount = (cardId: number, count: number) => {
+    setCounts(new Map(counts).set(cardId, Math.max(0, Math.min(10, count))));
+  };
+
+  const addToAll = () => {
+    setCounts(new Map(sessionCards.map(card => [card.id, Math.min(10, (counts.get(card.id) || 0) + 1)])));
+  };
+
+  const handleConfirm = () => {
+    onConfirm(counts, reason.trim() || undefined, stampType);
+    setNotice(t('session.stamped', { students: [...counts.values()].filter(count => count > 0).length, count: totalStamps }));
+    setCounts(new Map(sessionCardIds.map(id => [id, 0])));
+    setReason('');
+  };
+
+  const handleRevert = (batchId: string) => {
+    const skipped = onRevertBatch(batchId);
+    setConfirmRevertId(null);
+    setNotice(skipped > 0 ? t('session.revertedWithSkipped', { count: skipped }) : t('session.reverted'));
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-[#f8f5f2] max-w-2xl mx-auto w-full shadow-2xl min-h-screen">
+      <div className="p-6 pb-4 flex items-center gap-4">
+        <button onClick={() => onNavigate('records')} className="w-14 h-14 bg-white rounded-full flex items-center justify-center shadow-xs hover:bg-gray-50 transition-colors">
+          <ArrowLeft size={28} className="text-gray-600" />
+        </button>
+        <h2 className="text-2xl font-bold text-gray-800">{t('session.title')}</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-8 py-4 space-y-4 pb-20 no-scrollbar">
+        {notice && (
+          <div className="bg-emerald-50 border border-emerald-200 rounded-xl p-3 text-sm text-emerald-700 flex gap-2 items-center">
+            <Check size={16} className="shrink-0" />
+            {notice}
+          </div>
+        )}
+
+        {sessionCards.length > 0 && (
+          <>
+            <div className="flex justify-between items-center">
+              <p className="text-gray-500 font-bold">{t('common.studentCount', { count: sessionCards.length })}</p>
+              <button onClick={addToAll} className="px-4 py-2 bg-indigo-100 text-indigo-700 font-bold rounded-full hover:bg-indigo-200 transition-colors">
+                {t('session.addToAll')}
+              </button>
+            </div>
+
+            {sessionCards.map(card => {
+              const count = counts.get(card.id) || 0;
+              return (
+                <div key={card.id} className="bg-white p-5 rounded-3xl shadow-xs border border-gray-100 flex items-center gap-4">
+                  <StudentAvatar card={card} className="w-12 h-12 text-2xl" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xl font-bold text-gray-800 truncate">{card.name}</p>
+                    <p className="text-sm text-gray-400">{getStampedCount(card)}/{card.goal} · {card.points} {t('card.points')}</p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <button
+                      onClick={() => setCount(card.id, count - 1)}
+                      className="w-10 h-10 rounded-full bg-gray-100 hover:bg-gray-200 text-gray-600 flex items-center justify-center transition-colors"
+                    >
+                      <Minus size={18} />
+                    </button>
+                    <span className="w-8 text-center text-2xl font-black text-gray-800">{count}</span>
+                    <button
+                      onClick={() => setCount(card.id, count + 1)}
+                      className="w-10 h-10 rounded-full bg-indigo-500 hover:bg-indigo-600 text-white flex items-center justify-center transition-colors"
+                    >
+                      <Plus size={18} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+
+            <StampTypePicker value={stampType} onChange={setStampType} />
+
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={t('session.reasonPlaceholder')}
+              className="w-full text-lg py-4 px-5 bg-white border-2 border-transparent rounded-2xl focus:border-indigo-400 focus:outline-hidden text-gray-800 placeholder:text-gray-300 shadow-xs"
+            />
+
+            <button
+              onClick={handleConfirm}
+              disabled={totalStamps === 0}
+              className="w-full py-5 bg-indigo-500 hover:bg-indigo-600 text-white font-bold text-xl rounded-2xl shadow-lg shadow-indigo-200 disabled:opacity-50 disabled:shadow-none transition-colors"
+            >
+              {t('session.confirm', { count: totalStamps })}
+            </button>
+          </>
+        )}
+
+        <div className="pt-6">
+          <h3 className="text-xl font-bold text-gray-800 mb-3 flex items-center gap-2">
+            <History size={22} className="text-gray-400" />
+            {t('session.history')}
+          </h3>
+          {batches.length === 0 ? (
+            <p className="text-gray-400">{t('session.historyEmpty')}</p>
+          ) : (
+            <ul className="space-y-3">
+              {batches.map(batch => (
+                <li key={batch.id} className={`bg-white p-5 rounded-3xl shadow-xs border border-gray-100 ${batch.reverted ? 'opacity-50' : ''}`}>
+                  <div className="flex justify-between items-start gap-3">
+                    <div className="min-w-0">
+                      <p className="font-bold text-gray-800">
+                        {formatDate(batch.at, { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                        {batch.reason && <span className="text-gray-500 font-medium"> · {batch.reason}</span>}
+                      </p>
+                      <p className="text-sm text-gray-500 mt-1">
+                        {batch.entries.map(entry => `${entry.name} ×${entry.count}`).join(t('common.listSeparator'))}
+                      </p>
+                    </div>
+                    {batch.reverted ? (
+                      <span className="text-sm font-bold text-gray-400 shrink-0">{t('session.batchReverted')}</span>
+                    ) : (
+                      <button
+                        onClick={() => {
+                          if (confirmRevertId === batch.id) {
+                            handleRevert(batch.id);
+                          } else {
+                            setConfirmRevertId(batch.id);
+                          }
+                        }}
+                        className={`px-3 py-2 rounded-xl text-sm font-bold shrink-0 flex items-center gap-1 transition-colors ${
+                          confirmRevertId === batch.id ? 'bg-red-500 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                        }`}
+                      >
+                        <Undo2 size={16} />
+                        {confirmRevertId === batch.id ? t('session.revertConfirm') : t('session.revert')}
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       </div>
     </div>
   );
 };
 
-// 2. CreateView
-interface CreateViewProps extends BaseProps {
-  onCreate: (e: React.FormEvent) => void;
-  newCardName: string;
-  setNewCardName: (name: string) => void;
+// 15. LessonLog (單一學生的課程與出缺席紀錄)
+interface LessonLogProps {
+  lessons: Lesson[];
+  onAdd: (lesson: LessonDraft) => void;
+  onDelete: (lessonId: string) => void;
+}
+
+const LessonLog: React.FC<LessonLogProps> = ({ lessons, onAdd, onDelete }) => {
+  const { t, formatDate } = useI18n();
+  const [isAdding, setIsAdding] = useState(false);
+  // 有給章的課程刪除前先確認，刪除時會一併收回這些章
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<LessonDraft>(() => ({
+    date: toDateKey(new Date()),
+    durationMinutes: 60,
+    topic: '',
+    attended: true,
+    stampsAwarded: 1
+  }));
+
+  const sortedLessons = [...lessons].sort((a, b) => b.date.localeCompare(a.date));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onAdd({ ...draft, topic: draft.topic.trim(), stampsAwarded: draft.attended ? draft.stampsAwarded : 0 });
+    setDraft({ ...draft, topic: '', date: toDateKey(new Date()) });
+    setIsAdding(false);
+  };
+
+  return (
+    <div className="w-full mt-8 bg-white/5 rounded-3xl p-6 border border-white/10">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-bold text-xl flex items-center gap-2">
+          <BookOpen size={22} className="text-white/60" />
+          {t('lesson.title')}
+        </h3>
+        <button
+          onClick={() => setIsAdding(!isAdding)}
+          className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white font-bold rounded-full transition-colors flex items-center gap-1"
+        >
+          {isAdding ? <X size={18} /> : <Plus size={18} />}
+          {isAdding ? t('common.cancel') : t('common.add')}
+        </button>
+      </div>
+
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="mb-6 space-y-3 bg-white/5 rounded-2xl p-4">
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="date"
+              value={draft.date}
+              onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+              required
+              className="px-4 py-3 bg-white/10 border border-white/10 rounded-xl text-white focus:outline-hidden focus:border-white/40 [color-scheme:dark]"
+            />
+            <select
+              value={draft.durationMinutes}
+              onChange={(e) => setDraft({ ...draft, durationMinutes: Number(e.target.value) })}
+              className="px-4 py-3 bg-white/10 border border-white/10 rounded-xl text-white focus:outline-hidden focus:border-white/40 [color-scheme:dark]"
+            >
+              {LESSON_DURATION_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>{t('common.minutes', { count: minutes })}</option>
+              ))}
+            </select>
+          </div>
+          <input
+            type="text"
+            value={draft.topic}
+            onChange={(e) => setDraft({ ...draft, topic: e.target.value })}
+            placeholder={t('lesson.topicPlaceholder')}
+            className="w-full px-4 py-3 bg-white/10 border border-white/10 rounded-xl text-white placeholder:text-white/30 focus:outline-hidden focus:border-white/40"
+          />
+          <div className="flex gap-3">
+            {[true, false].map(attended => (
+              <button
+                key={String(attended)}
+                type="button"
+                onClick={() => setDraft({ ...draft, attended })}
+                className={`flex-1 py-3 rounded-xl font-bold transition-colors ${
+                  draft.attended === attended
+                    ? attended ? 'bg-emerald-500 text-white' : 'bg-red-500 text-white'
+                    : 'bg-white/10 text-white/60 hover:bg-white/20'
+                }`}
+              >
+                {attended ? t('common.attended') : t('common.absent')}
+              </button>
+            ))}
+          </div>
+          {draft.attended && (
+            <div className="flex items-center justify-between text-white">
+              <span className="font-bold">{t('lesson.stampsAwarded')}</span>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, stampsAwarded: Math.max(0, draft.stampsAwarded - 1) })}
+                  className="w-10 h-10 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center"
+                >
+                  <Minus size={18} />
+                </button>
+                <span className="w-8 text-center text-2xl font-black">{draft.stampsAwarded}</span>
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, stampsAwarded: Math.min(5, draft.stampsAwarded + 1) })}
+                  className="w-10 h-10 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center"
+                >
+                  <Plus size={18} />
+                </button>
+              </div>
+            </div>
+          )}
+          <button
+            type="submit"
+            className="w-full py-3 bg-white text-gray-800 font-bold rounded-xl hover:bg-gray-100 transition-colors"
+          >
+            {t('lesson.save')}
+          </button>
+        </form>
+      )}
+
+      {sortedLessons.length === 0 ? (
+        <p className="text-white/40 text-base">{t('lesson.empty')}</p>
+      ) : (
+        <ul className="space-y-2">
+          {sortedLessons.map(lesson => (
+            <li key={lesson.id} className="flex items-center gap-3 text-white/80">
+              <span className={`w-2 h-2 rounded-full shrink-0 ${lesson.attended ? 'bg-emerald-400' : 'bg-red-400'}`}></span>
+              <div className="flex-1 min-w-0">
+                <p className="font-medium truncate">
+                  {formatDate(fromDateKey(lesson.date))} · {lesson.topic || t('common.untitledLesson')}
+                </p>
+                <p className="text-white/40 text-sm">
+                  {lesson.attended ? t('common.attended') : t('common.absent')} · {t('common.minutes', { count: lesson.durationMinutes })}
+                  {lesson.stampsAwarded > 0 && ` · ${t('lesson.stampsSummary', { count: lesson.stampsAwarded })}`}
+                </p>
+              </div>
+              {confirmingId === lesson.id ? (
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => {
+                      onDelete(lesson.id);
+                      setConfirmingId(null);
+                    }}
+                    className="px-3 py-1.5 rounded-full bg-red-500 hover:bg-red-600 text-white text-sm font-bold transition-colors"
+                  >
+                    {t('lesson.deleteWithStamps', { count: lesson.stampsAwarded })}
+                  </button>
+                  <button
+                    onClick={() => setConfirmingId(null)}
+                    className="w-9 h-9 flex items-center justify-center rounded-full text-white/40 hover:text-white hover:bg-white/10 transition-colors"
+                    aria-label={t('common.cancel')}
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              ) : (
+                <button
+                  onClick={() => lesson.stampsAwarded > 0 ? setConfirmingId(lesson.id) : onDelete(lesson.id)}
+                  className="w-9 h-9 flex items-center justify-center rounded-full text-white/30 hover:text-red-400 hover:bg-white/10 transition-colors shrink-0"
+                  title={t('lesson.delete')}
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// 16. CalendarView (月曆：每天的課程與蓋章數)
+interface CalendarViewProps extends BaseProps {
+  cards: Card[];
+  lessons: Lesson[];
 }
 
-const CreateView: React.FC<CreateViewProps> = ({ 
-  onNavigate, 
-  onCreate, 
-  newCardName, 
-  setNewCardName 
-}) => {
+// 2023-01-01 是星期日，用來產生依語系顯示的星期名稱
+const WEEKDAY_DATES = Array(7).fill(null).map((_, i) => new Date(2023, 0, 1 + i));
+
+const CalendarView: React.FC<CalendarViewProps> = ({ onNavigate, cards, lessons }) => {
+  const { t, formatDate } = useI18n();
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const [cardFilter, setCardFilter] = useState<number | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string>(() => toDateKey(new Date()));
+
+  const visibleCards = cardFilter ? cards.filter(card => card.id === cardFilter) : cards;
+  const cardIds = new Set(visibleCards.map(card => card.id));
+  const visibleLessons = lessons.filter(lesson => cardIds.has(lesson.cardId));
+
+  // 每天的課程與蓋章數 (取消蓋章不計)
+  const lessonsByDate = new Map<string, Lesson[]>();
+  visibleLessons.forEach(lesson => {
+    lessonsByDate.set(lesson.date, [...(lessonsByDate.get(lesson.date) || []), lesson]);
+  });
+  // 之後被取消、復原或隨課程刪除收回的章不算
+  const stampsByDate = new Map<string, { card: Card; count: number }[]>();
+  visibleCards.forEach(card => {
+    getNetStampEvents(card).forEach(event => {
+      const date = toDateKey(new Date(event.at));
+      const entries = stampsByDate.get(date) || [];
+      const entry = entries.find(e => e.card.id === card.id);
+      if (entry) {
+        entry.count += 1;
+      } else {
+        entries.push({ card, count: 1 });
+      }
+      stampsByDate.set(date, entries);
+    });
+  });
+
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cells: (Date | null)[] = [
+    ...Array(month.getDay()).fill(null),
+    ...Array(daysInMonth).fill(null).map((_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1))
+  ];
+  const todayKey = toDateKey(new Date());
+  const cardNames = new Map(cards.map(card => [card.id, card.name]));
+
+  const selectedLessons = lessonsByDate.get(selectedDate) || [];
+  const selectedStamps = stampsByDate.get(selectedDate) || [];
+
+  const changeMonth = (offset: number) => {
+    setMonth(new Date(month.getFullYear(), month.getMonth() + offset, 1));
+  };
+
   return (
     <div className="flex flex-col h-full bg-[#f8f5f2] max-w-2xl mx-auto w-full shadow-2xl min-h-screen">
-      <div className="p-6 flex items-center">
-        <button onClick={() => onNavigate('home')} className="w-14 h-14 bg-white rounded-full flex items-center justify-center shadow-sm hover:bg-gray-50 transition-colors">
+      <div className="p-6 pb-4 flex items-center gap-4">
+        <button onClick={() => onNavigate('home')} className="w-14 h-14 bg-white rounded-full flex items-center justify-center shadow-xs hover:bg-gray-50 transition-colors">
           <ArrowLeft size={28} className="text-gray-600" />
         </button>
+        <h2 className="text-2xl font-bold text-gray-800">{t('calendar.title')}</h2>
       </div>
 
-      <div className="flex-1 px-8 flex flex-col items-center pt-10">
-        <div className="w-full">
-          <div className="bg-white p-10 rounded-[40px] shadow-xl border border-gray-100 relative overflow-hidden">
-            <div className="absolute top-0 left-0 w-full h-3 bg-rose-500"></div>
-            <h2 className="text-3xl font-bold text-gray-800 mb-8">新增學生卡片</h2>
-            
-            <form onSubmit={onCreate} className="flex flex-col gap-8">
-              <div>
-                <label className="block text-lg font-bold text-gray-500 mb-4 uppercase tracking-wider">學生姓名</label>
-                <div className="relative">
-                  <User className="absolute left-6 top-1/2 -translate-y-1/2 text-gray-400" size={28} />
-                  <input
-                    type="text"
-                    value={newCardName}
-                    onChange={(e) => setNewCardName(e.target.value)}
-                    placeholder="請輸入姓名"
-                    className="w-full text-2xl py-6 pl-16 pr-6 bg-gray-50 border-2 border-transparent rounded-2xl focus:bg-white focus:border-rose-500 focus:outline-none transition-all placeholder:text-gray-300 font-bold text-gray-800"
-                    autoFocus
-                  />
-                </div>
-              </div>
-              <button 
-                type="submit" 
-                disabled={!newCardName.trim()}
-                className="w-full bg-rose-500 text-white py-6 rounded-2xl font-bold text-2xl shadow-lg shadow-rose-200 hover:bg-rose-600 hover:shadow-rose-300 disabled:opacity-50 disabled:shadow-none transition-all transform active:scale-[0.98] mt-4"
-              >
-                建立集點卡
-              </button>
-            </form>
+      <div className="flex-1 overflow-y-auto px-8 py-4 space-y-4 pb-20 no-scrollbar">
+        <select
+          value={cardFilter ?? ''}
+          onChange={(e) => setCardFilter(e.target.value ? Number(e.target.value) : null)}
+          className="w-full px-5 py-3 bg-white rounded-2xl shadow-xs font-bold text-gray-700 focus:outline-hidden"
+        >
+          <option value="">{t('common.allStudents')}</option>
+          {cards.map(card => (
+            <option key={card.id} value={card.id}>{card.name}</option>
+          ))}
+        </select>
+
+        <div className="bg-white p-5 rounded-3xl shadow-xs border border-gray-100">
+          <div className="flex items-center justify-between mb-4">
+            <button onClick={() => changeMonth(-1)} className="w-10 h-10 rounded-full hover:bg-gray-100 flex items-center justify-center text-gray-500">
+              <ChevronLeft size={24} />
+            </button>
+            <p className="text-xl font-bold text-gray-800">{formatDate(month, { year: 'numeric', month: 'long' })}</p>
+            <button onClick={() => changeMonth(1)} className="w-10 h-10 rounded-full hover:bg-gray-100 flex items-center justify-center text-gray-500">
+              <ChevronRight size={24} />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-7 gap-1 text-center">
+            {WEEKDAY_DATES.map(date => (
+              <p key={date.getDay()} className="text-sm font-bold text-gray-400 pb-2">{formatDate(date, { weekday: 'narrow' })}</p>
+            ))}
+            {cells.map((date, i) => {
+              if (!date) return <div key={`empty-${i}`}></div>;
+              const key = toDateKey(date);
+              const dayLessons = lessonsByDate.get(key) || [];
+              const stampCount = (stampsByDate.get(key) || []).reduce((sum, entry) => sum + entry.count, 0);
+              return (
+                <button
+                  key={key}
+                  onClick={() => setSelectedDate(key)}
+                  className={`aspect-square rounded-xl flex flex-col items-center justify-center gap-0.5 transition-colors ${
+                    key === selectedDate ? 'bg-indigo-500 text-white' : key === todayKey ? 'bg-indigo-50 text-indigo-700' : 'hover:bg-gray-50 text-gray-700'
+                  }`}
+                >
+                  <span className="font-bold">{date.getDate()}</span>
+                  <span className="flex gap-0.5 h-1.5">
+                    {dayLessons.slice(0, 3).map(lesson => (
+                      <span key={lesson.id} className={`w-1.5 h-1.5 rounded-full ${lesson.attended ? 'bg-emerald-400' : 'bg-red-400'}`}></span>
+                    ))}
+                  </span>
+                  {stampCount > 0 && <span className="text-[10px] font-bold leading-none opacity-70">★{stampCount}</span>}
+                </button>
+              );
+            })}
           </div>
         </div>
+
+        <div className="bg-white p-5 rounded-3xl shadow-xs border border-gray-100 space-y-4">
+          <p className="text-lg font-bold text-gray-800">{formatDate(fromDateKey(selectedDate), { dateStyle: 'full' })}</p>
+          {selectedLessons.length === 0 && selectedStamps.length === 0 && (
+            <p className="text-gray-400">{t('calendar.emptyDay')}</p>
+          )}
+          {selectedLessons.length > 0 && (
+            <ul className="space-y-2">
+              {selectedLessons.map(lesson => (
+                <li key={lesson.id} className="flex items-center gap-3">
+                  <span className={`w-2 h-2 rounded-full shrink-0 ${lesson.attended ? 'bg-emerald-400' : 'bg-red-400'}`}></span>
+                  <p className="text-gray-700">
+                    <span className="font-bold">{cardNames.get(lesson.cardId)}</span>
+                    {' · '}{lesson.topic || t('common.untitledLesson')}
+                    <span className="text-gray-400">
+                      {' · '}{lesson.attended ? t('common.attended') : t('common.absent')}
+                      {' · '}{t('common.minutes', { count: lesson.durationMinutes })}
+                    </span>
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+          {selectedStamps.length > 0 && (
+            <p className="text-gray-500">
+              {t('calendar.stamps', {
+                list: selectedStamps.map(entry => `${entry.card.name} ×${entry.count}`).join(t('common.listSeparator'))
+              })}
+            </p>
+          )}
+        </div>
       </div>
     </div>
   );
 };
 
-// 3. RecordsView
-interface RecordsViewProps extends BaseProps {
+// 17. DashboardPanel (首頁統計)
+interface DashboardPanelProps {
   cards: Card[];
-  onRequestDelete: (card: Card) => void;
-  onSelect: (cardId: number) => void;
+  onSelectCard: (cardId: number) => void;
 }
 
-const RecordsView: React.FC<RecordsViewProps> = ({ 
-  onNavigate, 
-  cards, 
-  onRequestDelete, 
-  onSelect 
-}) => {
-  return (
-    <div className="flex flex-col h-full bg-[#f8f5f2] max-w-2xl mx-auto w-full shadow-2xl min-h-screen">
-      <div className="p-6 pb-4 flex items-center justify-between sticky top-0 bg-[#f8f5f2]/95 backdrop-blur-sm z-10">
-        <div className="flex items-center gap-4">
-          <button onClick={() => onNavigate('home')} className="w-14 h-14 bg-white rounded-full flex items-center justify-center shadow-sm hover:bg-gray-50 transition-colors">
-            <ArrowLeft size={28} className="text-gray-600" />
+const DashboardPanel: React.FC<DashboardPanelProps> = ({ cards, onSelectCard }) => {
+  const { t, formatDate } = useI18n();
+  const stats = computeDashboardStats(cards);
+  const maxWeekly = Math.max(1, ...stats.weeklyStamps.map(week => week.count));
+  const chartHeight = 96;
+  const barWidth = 100 / stats.weeklyStamps.length;
+
+  const renderStudentList = (entries: { card: Card; count: number }[]) => (
+    <ul className="space-y-1">
+      {entries.map(({ card, count }) => (
+        <li key={card.id}>
+          <button onClick={() => onSelectCard(card.id)} className="w-full flex justify-between text-left hover:text-indigo-600">
+            <span className="font-bold truncate">{card.name}</span>
+            <span className="text-gray-400 shrink-0 ml-2">{t('common.stampCount', { count })}</span>
           </button>
-          <h2 className="text-2xl font-bold text-gray-800">學生列表</h2>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="w-full bg-white p-6 rounded-3xl shadow-xs border border-gray-100 space-y-6">
+      <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+        <BarChart3 size={24} className="text-indigo-500" /> {t('dashboard.title')}
+      </h2>
+
+      <div>
+        <p className="text-sm font-bold text-gray-500 mb-2">{t('dashboard.weekly', { count: DASHBOARD_WEEKS })}</p>
+        <svg viewBox={`0 0 100 ${chartHeight + 14}`} className="w-full h-36" preserveAspectRatio="none">
+          {stats.weeklyStamps.map((week, i) => {
+            const height = (week.count / maxWeekly) * chartHeight;
+            return (
+              <g key={week.weekStart.getTime()}>
+                <rect
+                  x={i * barWidth + barWidth * 0.15}
+                  y={chartHeight - height}
+                  width={barWidth * 0.7}
+                  height={Math.max(height, 0.5)}
+                  rx={1.5}
+                  className={i === stats.weeklyStamps.length - 1 ? 'fill-indigo-500' : 'fill-indigo-200'}
+                />
+                <text x={i * barWidth + barWidth / 2} y={chartHeight + 10} textAnchor="middle" className="fill-gray-400" fontSize="4">
+                  {formatDate(week.weekStart, { month: 'numeric', day: 'numeric' })}
+                </text>
+                {week.count > 0 && (
+                  <text x={i * barWidth + barWidth / 2} y={chartHeight - height - 2} textAnchor="middle" className="fill-gray-600" fontSize="4">
+                    {week.count}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-emerald-50 rounded-2xl p-4 text-gray-700">
+          <p className="text-sm font-bold text-emerald-700 mb-2">{t('dashboard.mostActive', { count: ACTIVITY_WINDOW_DAYS })}</p>
+          {stats.mostActive.length > 0 ? renderStudentList(stats.mostActive) : <p className="text-gray-400">{t('dashboard.noStamps')}</p>}
+        </div>
+        <div className="bg-orange-50 rounded-2xl p-4 text-gray-700">
+          <p className="text-sm font-bold text-orange-700 mb-2">{t('dashboard.leastActive')}</p>
+          {stats.leastActive.length > 0 ? renderStudentList(stats.leastActive) : <p className="text-gray-400">{t('dashboard.everyoneActive')}</p>}
         </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto px-8 py-4 space-y-6 pb-20 no-scrollbar">
-        {cards.length === 0 ? (
-          <div className="flex flex-col items-center justify-center h-[50vh] text-gray-400">
-            <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mb-6">
-               <User size={40} className="opacity-30" />
-            </div>
-            <p className="text-xl">目前還沒有學生資料</p>
-            <button onClick={() => onNavigate('create')} className="mt-8 px-8 py-4 bg-white text-rose-500 font-bold rounded-full text-lg shadow-sm border border-rose-100 hover:shadow-md transition-all">
-              新增一位學生
-            </button>
-          </div>
-        ) : (
-          cards.map(card => (
-            <div 
+      <div className="grid grid-cols-2 gap-4">
+        <div className="bg-gray-50 rounded-2xl p-4">
+          <p className="text-sm font-bold text-gray-500">{t('dashboard.averageCompletion')}</p>
+          <p className="text-2xl font-black text-gray-800 mt-1">
+            {stats.averageDaysToComplete === null ? '—' : t('common.days', { count: Math.round(stats.averageDaysToComplete) })}
+          </p>
+        </div>
+        <div className="bg-gray-50 rounded-2xl p-4">
+          <p className="text-sm font-bold text-gray-500">{t('dashboard.inactive', { count: INACTIVE_DAYS })}</p>
+          <p className="text-2xl font-black text-gray-800 mt-1">{t('common.studentCount', { count: stats.inactiveCards.length })}</p>
+        </div>
+      </div>
+
+      {stats.inactiveCards.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {stats.inactiveCards.map(card => (
+            <button
               key={card.id}
-              className="bg-white p-6 rounded-3xl shadow-sm border border-gray-100 flex justify-between items-center group relative overflow-hidden cursor-pointer hover:shadow-lg transition-all"
-              onClick={() => onSelect(card.id)}
+              onClick={() => onSelectCard(card.id)}
+              className="px-3 py-1 bg-red-50 text-red-600 font-bold rounded-full text-sm hover:bg-red-100 transition-colors"
             >
-              <div className="flex items-center gap-6 flex-1">
-                <div className={`w-16 h-16 ${card.themeColor || 'bg-rose-500'} rounded-2xl flex items-center justify-center text-white font-bold text-3xl shadow-md shrink-0`}>
-                  {card.name.charAt(0)}
-                </div>
-                <div>
-                  <h3 className="font-bold text-2xl text-gray-800 mb-2">{card.name}</h3>
-                  <div className="flex items-center gap-3">
-                     <div className="h-2 w-24 bg-gray-100 rounded-full overflow-hidden">
-                        <div className={`h-full ${card.themeColor || 'bg-rose-500'}`} style={{ width: `${(card.points / 30) * 100}%` }}></div>
-                     </div>
-                     <p className="text-sm text-gray-400 font-bold">{card.points}/30</p>
-                  </div>
-                </div>
-              </div>
-              
-              {/* 右側操作區 */}
-              <div className="flex items-center gap-4 pl-4 border-l border-gray-100 z-20 relative">
-                <button 
-                  onClick={(e) => {
-                    e.stopPropagation(); 
-                    onRequestDelete(card);
-                  }}
-                  className="w-14 h-14 flex items-center justify-center rounded-full text-gray-300 hover:text-red-600 hover:bg-red-50 transition-colors active:scale-95"
-                  title="刪除"
-                  type="button"
-                >
-                  <Trash2 size={28} />
-                </button>
-                <ChevronRight className="text-gray-300" size={28} />
-              </div>
-            </div>
-          ))
-        )}
-      </div>
+              {card.name}
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
 
-// 4. DeleteConfirmModal
-interface DeleteConfirmModalProps {
-  isOpen: boolean;
-  onClose: () => void;
-  onConfirm: () => void;
-  cardName?: string;
+// 18. LanguageSwitcher (切換介面語言)
+const LanguageSwitcher: React.FC = () => {
+  const { t, locale, setLocale } = useI18n();
+
+  return (
+    <label className="flex items-center gap-2 bg-gray-100 rounded-full px-3 py-2 shrink-0">
+      <Languages size={18} className="text-gray-500" />
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        aria-label={t('common.language')}
+        className="bg-transparent font-bold text-gray-700 text-sm focus:outline-hidden"
+      >
+        {LOCALES.map(option => (
+          <option key={option} value={option}>{LOCALE_LABELS[option]}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+// 19. StampMark (集點格上的印章)
+interface StampMarkProps {
+  icon?: StampIcon;
+  color: string;
+  className?: string;
 }
 
-const DeleteConfirmModal: React.FC<DeleteConfirmModalProps> = ({ 
-  isOpen, 
-  onClose, 
-  onConfirm, 
-  cardName 
-}) => {
-  if (!isOpen) return null;
+const StampMark: React.FC<StampMarkProps> = ({ icon = 'check', color, className = '' }) => (
+  <svg width="80%" height="80%" viewBox="0 0 40 40" className={`opacity-90 drop-shadow-xs ${className}`} style={{ color }}>
+    <circle cx="20" cy="20" r="18" fill="none" stroke="currentColor" strokeWidth="2.5" strokeDasharray="4 2" />
+    {(STAMP_ICON_PARTS[icon] || STAMP_ICON_PARTS.check).map((part, index) => {
+      const paint = part.white ? 'white' : 'currentColor';
+      return part.stroke
+        ? <path key={index} d={part.d} fill="none" stroke={paint} strokeWidth={part.stroke} strokeLinecap="round" strokeLinejoin="round" />
+        : <path key={index} d={part.d} fill={paint} />;
+    })}
+  </svg>
+);
+
+// 20. ThemePicker (卡片顏色與印章圖案)
+interface ThemePickerProps {
+  theme: CardTheme;
+  onChange: (theme: CardTheme) => void;
+  dark?: boolean;
+}
+
+const ThemePicker: React.FC<ThemePickerProps> = ({ theme, onChange, dark = false }) => {
+  const { t } = useI18n();
+  const themeHex = getThemeHex(theme.themeColor);
+  const isCustom = CUSTOM_COLOR_PATTERN.test(theme.themeColor);
+  const labelClass = `block text-lg font-bold mb-4 uppercase tracking-wider ${dark ? 'text-white/60' : 'text-gray-500'}`;
+  const ringClass = dark ? 'ring-white ring-offset-[#2a2a2a]' : 'ring-gray-800 ring-offset-white';
 
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
-      <div className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-2xl scale-100 animate-in zoom-in-95 duration-200">
-        <div className="w-12 h-12 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4 text-red-600">
-          <AlertCircle size={32} />
-        </div>
-        <h3 className="text-xl font-bold text-center text-gray-800 mb-2">確定要刪除嗎？</h3>
-        <p className="text-center text-gray-500 mb-6">
-          您即將刪除 <span className="font-bold text-gray-800">「{cardName}」</span> 的集點卡。<br/>
-          此動作無法復原，資料將會消失。
-        </p>
-        <div className="flex gap-3">
-          <button 
-            onClick={onClose}
-            className="flex-1 py-3 bg-gray-100 hover:bg-gray-200 text-gray-700 font-bold rounded-xl transition-colors"
-          >
-            取消
-          </button>
-          <button 
-            onClick={onConfirm}
-            className="flex-1 py-3 bg-red-500 hover:bg-red-600 text-white font-bold rounded-xl shadow-lg shadow-red-200 transition-colors"
+    <div className="space-y-6">
+      <div>
+        <p className={labelClass}>{t('theme.color')}</p>
+        <div className="flex flex-wrap gap-3">
+          {THEME_COLORS.map(color => (
+            <button
+              key={color.value}
+              type="button"
+              onClick={() => onChange({ ...theme, themeColor: color.value })}
+              className={`w-11 h-11 rounded-full transition-transform active:scale-95 ${
+                theme.themeColor === color.value ? `ring-4 ring-offset-2 ${ringClass}` : ''
+              }`}
+              style={{ backgroundColor: color.hex }}
+              aria-label={color.hex}
+            />
+          ))}
+          <label
+            className={`w-11 h-11 rounded-full flex items-center justify-center cursor-pointer border-2 border-dashed ${
+              isCustom ? `ring-4 ring-offset-2 border-transparent ${ringClass}` : dark ? 'border-white/30' : 'border-gray-300'
+            }`}
+            style={isCustom ? { backgroundColor: themeHex } : undefined}
+            title={t('theme.customColor')}
           >
-            確認刪除
-          </button>
+            <Palette size={20} className={isCustom ? 'text-white' : dark ? 'text-white/60' : 'text-gray-400'} />
+            <input
+              type="color"
+              value={themeHex}
+              onChange={(e) => onChange({ ...theme, themeColor: e.target.value.toLowerCase() })}
+              className="sr-only"
+            />
+          </label>
+        </div>
+      </div>
+      <div>
+        <p className={labelClass}>{t('theme.stampIcon')}</p>
+        <div className="grid grid-cols-5 gap-3">
+          {STAMP_ICONS.map(icon => (
+            <button
+              key={icon}
+              type="button"
+              onClick={() => onChange({ ...theme, stampIcon: icon })}
+              title={t(`theme.icon.${icon}`)}
+              className={`aspect-square rounded-2xl flex items-center justify-center border-2 transition-all ${
+                theme.stampIcon === icon
+                  ? dark ? 'bg-white border-white' : 'bg-gray-50 border-gray-800'
+                  : dark ? 'bg-white/10 border-transparent hover:bg-white/20' : 'bg-gray-50 border-transparent hover:bg-gray-100'
+              }`}
+            >
+              <StampMark icon={icon} color={themeHex} />
+            </button>
+          ))}
         </div>
       </div>
     </div>
   );
 };
 
-// 5. ShareModal (Enhanced with Simulation Mode)
-interface ShareModalProps {
-  isOpen: boolean;
-  onClose: () => void;
-  shareUrl: string;
-  onSimulate: () => void;
+// 21. QrCode (分享連結的 QR code)
+interface QrCodeProps {
+  matrix: boolean[][];
+  className?: string;
 }
 
-const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, shareUrl, onSimulate }) => {
-  const [copied, setCopied] = useState(false);
-  const inputRef = useRef<HTMLTextAreaElement>(null);
-  
-  // 偵測是否為 Blob URL (預覽環境)
-  const isPreviewEnvironment = typeof window !== 'undefined' && window.location.protocol === 'blob:';
+const QrCode: React.FC<QrCodeProps> = ({ matrix, className = '' }) => (
+  <svg
+    viewBox={`0 0 ${matrix.length} ${matrix.length}`}
+    className={`bg-white ${className}`}
+    shapeRendering="crispEdges"
+    role="img"
+  >
+    <path d={qrMatrixToPath(matrix)} fill="#000" />
+  </svg>
+);
+
+// 22. OfflineIndicator (離線提示)
+const OfflineIndicator: React.FC = () => {
+  const { t } = useI18n();
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
 
   useEffect(() => {
-    if (isOpen) setCopied(false);
-  }, [isOpen]);
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
 
-  const handleCopy = () => {
-    if (navigator.clipboard && navigator.clipboard.writeText) {
-        navigator.clipboard.writeText(shareUrl)
-          .then(() => setCopied(true))
-          .catch(() => fallbackCopy());
-    } else {
-        fallbackCopy();
-    }
+  if (isOnline) return null;
+
+  return (
+    <div className="fixed top-3 left-1/2 -translate-x-1/2 z-[70] bg-gray-900/90 text-white text-sm font-bold px-4 py-2 rounded-full shadow-lg flex items-center gap-2 print:hidden" role="status">
+      <WifiOff size={16} className="text-amber-300" />
+      {t('offline.banner')}
+    </div>
+  );
+};
+
+// 23. StudentAvatar (學生照片，沒有照片時顯示名字的第一個字)
+interface StudentAvatarProps {
+  card: Pick<Card, 'name' | 'themeColor' | 'profile'>;
+  className?: string;
+}
+
+const StudentAvatar: React.FC<StudentAvatarProps> = ({ card, className = '' }) =>
+  card.profile.avatar ? (
+    <img src={card.profile.avatar} alt="" className={`rounded-2xl object-cover shrink-0 ${className}`} />
+  ) : (
+    <div
+      className={`rounded-2xl flex items-center justify-center text-white font-bold shrink-0 ${className}`}
+      style={{ backgroundColor: getThemeHex(card.themeColor) }}
+    >
+      {card.name.charAt(0)}
+    </div>
+  );
+
+// 24. ProfileSummary (集點卡頁面上的學生資料)
+interface ProfileSummaryProps {
+  profile: StudentProfile;
+  onEdit: () => void;
+}
+
+const ProfileSummary: React.FC<ProfileSummaryProps> = ({ profile, onEdit }) => {
+  const { t } = useI18n();
+  const rows = [
+    { label: t('profile.nickname'), value: profile.nickname },
+    { label: t('profile.grade'), value: profile.grade },
+    { label: t('profile.parentName'), value: profile.parentName },
+    { label: t('profile.parentContact'), value: profile.parentContact }
+  ].filter(row => row.value);
+
+  return (
+    <div className="w-full mt-8 bg-white/5 rounded-3xl p-6 border border-white/10">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-bold text-xl flex items-center gap-2">
+          <User size={22} className="text-white/60" />
+          {t('profile.title')}
+        </h3>
+        <button onClick={onEdit} className="text-white/60 hover:text-white text-sm font-bold flex items-center gap-1.5 transition-colors">
+          <Pencil size={16} /> {t('profile.edit')}
+        </button>
+      </div>
+      {rows.length === 0 && !profile.notes ? (
+        <p className="text-white/40">{t('profile.empty')}</p>
+      ) : (
+        <>
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2">
+            {rows.map(row => (
+              <React.Fragment key={row.label}>
+                <dt className="text-white/40">{row.label}</dt>
+                <dd className="text-white font-medium break-all">{row.value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+          {profile.notes && (
+            <p className="mt-4 bg-white/5 rounded-2xl p-4 text-white/80 whitespace-pre-wrap">{profile.notes}</p>
+          )}
+        </>
+      )}
+      <p className="mt-4 text-white/30 text-xs">{t('profile.privateNote')}</p>
+    </div>
+  );
+};
+
+// 25. ProfileEditView (編輯學生資料)
+interface ProfileEditViewProps extends BaseProps {
+  card: Card;
+  onSave: (cardId: number, draft: ProfileDraft) => void;
+}
+
+const ProfileEditView: React.FC<ProfileEditViewProps> = ({ card, onNavigate, onSave }) => {
+  const { t } = useI18n();
+  const [name, setName] = useState(card.name);
+  const [profile, setProfile] = useState<StudentProfile>(card.profile);
+  const [photoError, setPhotoError] = useState(false);
+
+  const updateProfile = (field: keyof StudentProfile, value: string) => {
+    setProfile(prev => ({ ...prev, [field]: value }));
   };
 
-  const fallbackCopy = () => {
-    if (inputRef.current) {
-        inputRef.current.select();
-        try {
-            document.execCommand('copy');
-            setCopied(true);
-        } catch (err) {
-            console.error('Copy failed', err);
-        }
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setPhotoError(false);
+    try {
+      updateProfile('avatar', await resizeAvatar(file));
+    } catch (error) {
+      console.error('處理照片失敗', error);
+      setPhotoError(true);
     }
   };
 
-  if (!isOpen) return null;
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave(card.id, {
+      name: name.trim(),
+      profile: {
+        ...profile,
+        nickname: profile.nickname.trim(),
+        grade: profile.grade.trim(),
+        parentName: profile.parentName.trim(),
+        parentContact: profile.parentContact.trim(),
+        notes: profile.notes.trim()
+      }
+    });
+  };
+
+  const inputClass = 'w-full text-xl py-4 px-5 bg-gray-50 border-2 border-transparent rounded-2xl focus:bg-white focus:border-rose-500 focus:outline-hidden transition-all placeholder:text-gray-300 font-bold text-gray-800';
+  const labelClass = 'block text-lg font-bold text-gray-500 mb-3 uppercase tracking-wider';
 
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
-      <div className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-2xl scale-100 animate-in zoom-in-95 duration-200">
-        
-        {/* 標題與圖示 */}
-        <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4 text-blue-600">
-          <Share2 size={28} />
-        </div>
-        <h3 className="text-xl font-bold text-center text-gray-800 mb-2">分享給學生</h3>
-        
-        {/* 預覽環境警告 */}
-        {isPreviewEnvironment && (
-           <div className="bg-orange-50 border border-orange-200 rounded-xl p-3 mb-4 text-sm text-orange-800 flex gap-2 items-start">
-             <AlertCircle size={16} className="mt-0.5 shrink-0" />
-             <div>
-               <strong>注意：預覽模式無法分享連結</strong>
-               <p className="opacity-80 mt-1 text-xs">您目前的網址是暫時的 (Blob)，無法傳送給他人。請使用下方的「模擬預覽」功能測試。</p>
-             </div>
-           </div>
-        )}
+    <div className="flex flex-col h-full bg-[#f8f5f2] max-w-2xl mx-auto w-full shadow-2xl min-h-screen">
+      <div className="p-6 flex items-center">
+        <button onClick={() => onNavigate('card')} className="w-14 h-14 bg-white rounded-full flex items-center justify-center shadow-xs hover:bg-gray-50 transition-colors">
+          <ArrowLeft size={28} className="text-gray-600" />
+        </button>
+      </div>
+
+      <div className="flex-1 px-8 pb-10">
+        <div className="bg-white p-10 rounded-[40px] shadow-xl border border-gray-100 relative overflow-hidden">
+          <div className="absolute top-0 left-0 w-full h-3" style={{ backgroundColor: getThemeHex(card.themeColor) }}></div>
+          <h2 className="text-3xl font-bold text-gray-800 mb-8">{t('profile.editTitle')}</h2>
+
+          <form onSubmit={handleSubmit} className="flex flex-col gap-6">
+            <div className="flex items-center gap-6">
+              <StudentAvatar card={{ name: name || card.name, themeColor: card.themeColor, profile }} className="w-24 h-24 text-4xl shadow-md" />
+              <div className="flex flex-col gap-2">
+                <label className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 font-bold rounded-xl flex items-center gap-2 cursor-pointer transition-colors">
+                  <Camera size={18} /> {profile.avatar ? t('profile.changePhoto') : t('profile.addPhoto')}
+                  <input type="file" accept="image/*" onChange={handlePhotoChange} className="sr-only" />
+                </label>
+                {profile.avatar && (
+                  <button
+                    type="button"
+                    onClick={() => updateProfile('avatar', '')}
+                    className="px-4 py-2 text-gray-400 hover:text-red-500 font-bold rounded-xl text-left transition-colors"
+                  >
+                    {t('profile.removePhoto')}
+                  </button>
+                )}
+                {photoError && <p className="text-sm font-bold text-red-500">{t('profile.photoError')}</p>}
+              </div>
+            </div>
 
-        {!isPreviewEnvironment && (
-            <p className="text-center text-gray-500 mb-6 text-sm">
-            請複製下方連結傳送給學生。<br/>
-            <span className="text-xs text-orange-400 mt-1 block">注意：此為當下狀態快照，更新點數後需重新分享。</span>
-            </p>
-        )}
-        
-        {/* 連結複製區 (如果在預覽環境則隱藏或 disable) */}
-        <textarea
-          ref={inputRef}
-          value={isPreviewEnvironment ? "請使用下方按鈕進行模擬預覽" : shareUrl}
-          readOnly
-          onClick={(e) => !isPreviewEnvironment && e.currentTarget.select()}
-          className={`w-full p-3 rounded-xl border mb-4 break-all text-xs font-mono h-24 overflow-y-auto resize-none focus:outline-none transition-colors
-            ${isPreviewEnvironment ? 'bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed' : 'bg-gray-50 text-gray-500 border-gray-200 focus:border-blue-500'}
-          `}
-        />
+            <div>
+              <label className={labelClass}>{t('create.nameLabel')}</label>
+              <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} required />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>{t('profile.nickname')}</label>
+                <input type="text" value={profile.nickname} onChange={(e) => updateProfile('nickname', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>{t('profile.grade')}</label>
+                <input
+                  type="text"
+                  value={profile.grade}
+                  onChange={(e) => updateProfile('grade', e.target.value)}
+                  placeholder={t('profile.gradePlaceholder')}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>{t('profile.parentName')}</label>
+              <input type="text" value={profile.parentName} onChange={(e) => updateProfile('parentName', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>{t('profile.parentContact')}</label>
+              <div className="relative">
+                <Phone className="absolute left-5 top-1/2 -translate-y-1/2 text-gray-400" size={22} />
+                <input
+                  type="text"
+                  value={profile.parentContact}
+                  onChange={(e) => updateProfile('parentContact', e.target.value)}
+                  placeholder={t('profile.parentContactPlaceholder')}
+                  className={`${inputClass} pl-14`}
+                />
+              </div>
+            </div>
+            <div>
+              <label className={`${labelClass} flex items-center gap-2`}>
+                <StickyNote size={18} /> {t('profile.notes')}
+              </label>
+              <textarea
+                value={profile.notes}
+                onChange={(e) => updateProfile('notes', e.target.value)}
+                rows={5}
+                className={`${inputClass} font-medium text-lg resize-y`}
+              />
+            </div>
 
-        {/* 按鈕區 */}
-        <div className="flex flex-col gap-3">
-            {/* 模擬按鈕 */}
-            <button 
-                onClick={onSimulate}
-                className="w-full py-3 bg-indigo-500 hover:bg-indigo-600 text-white font-bold rounded-xl shadow-lg shadow-indigo-200 transition-all flex items-center justify-center gap-2"
-            >
-                <Eye size={20} /> 在此裝置模擬預覽
-            </button>
+            <p className="text-sm text-gray-400 flex items-center gap-2">
+              <ShieldCheck size={16} className="shrink-0" /> {t('profile.privateNote')}
+            </p>
 
             <div className="flex gap-3">
-                <button 
-                    onClick={onClose}
-                    className="flex-1 py-3 bg-gray-100 hover:bg-gray-200 text-gray-700 font-bold rounded-xl transition-colors"
-                >
-                    關閉
-                </button>
-                <button 
-                    onClick={handleCopy}
-                    disabled={isPreviewEnvironment}
-                    className={`flex-1 py-3 font-bold rounded-xl shadow-lg transition-all flex items-center justify-center gap-2 ${
-                    copied 
-                        ? 'bg-green-500 hover:bg-green-600 text-white shadow-green-200' 
-                        : isPreviewEnvironment 
-                            ? 'bg-gray-300 text-gray-500 cursor-not-allowed shadow-none'
-                            : 'bg-blue-500 hover:bg-blue-600 text-white shadow-blue-200'
-                    }`}
-                >
-                    {copied ? (
-                    <>
-                        <Check size={20} /> 已複製
-                    </>
-                    ) : (
-                    <>
-                        <Copy size={20} /> 複製連結
-                    </>
-                    )}
-                </button>
+              <button
+                type="button"
+                onClick={() => onNavigate('card')}
+                className="flex-1 py-5 bg-gray-100 hover:bg-gray-200 text-gray-700 font-bold text-xl rounded-2xl transition-colors"
+              >
+                {t('common.cancel')}
+              </button>
+              <button
+                type="submit"
+                disabled={!name.trim()}
+                className="flex-1 py-5 bg-rose-500 hover:bg-rose-600 text-white font-bold text-xl rounded-2xl shadow-lg shadow-rose-200 disabled:opacity-50 disabled:shadow-none transition-all"
+              >
+                {t('profile.save')}
+              </button>
             </div>
+          </form>
         </div>
       </div>
     </div>
   );
 };
 
-// 6. StudentReadOnlyView (Updated with Exit Button)
-interface StudentReadOnlyViewProps {
-  card: Partial<Card>;
-  onExitPreview?: () => void;
+// 26. UndoToast (刪除後可以立即復原；沒有 onUndo 時只顯示提示)
+interface UndoToastProps {
+  message: string;
+  onUndo?: () => void;
+  onDismiss: () => void;
 }
 
-const StudentReadOnlyView: React.FC<StudentReadOnlyViewProps> = ({ card, onExitPreview }) => {
-  const themeColor = card.themeColor || 'bg-rose-500';
-  const textColor = themeColor.replace('bg-', 'text-');
-  const points = card.points || 0;
-  const stamps = card.stamps || Array(30).fill(false);
+const UndoToast: React.FC<UndoToastProps> = ({ message, onUndo, onDismiss }) => {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, UNDO_TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss]);
 
   return (
-    <div className="flex flex-col h-full bg-[#f8f5f2] max-w-2xl mx-auto w-full shadow-2xl min-h-screen relative">
-       {/* 頂部標題 */}
-       <div className="p-6 pb-2 text-center">
-         <h1 className="text-xl font-bold text-gray-400 uppercase tracking-widest">Student Rewards</h1>
-         <p className="text-gray-800 font-bold text-lg mt-1">集點卡預覽模式</p>
-       </div>
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-3rem)] max-w-md bg-gray-900 text-white rounded-2xl shadow-2xl px-5 py-4 flex items-center gap-4 animate-in slide-in-from-bottom duration-200" role="status">
+      {onUndo ? <Trash2 size={20} className="text-white/60 shrink-0" /> : <AlertTriangle size={20} className="text-amber-300 shrink-0" />}
+      <p className={`flex-1 font-medium ${onUndo ? 'truncate' : ''}`}>{message}</p>
+      {onUndo && (
+        <button onClick={onUndo} className="text-amber-300 hover:text-amber-200 font-bold flex items-center gap-1.5 shrink-0">
+          <Undo2 size={18} /> {t('common.undo')}
+        </button>
+      )}
+      <button onClick={onDismiss} className="text-white/40 hover:text-white shrink-0" aria-label={t('common.close')}>
+        <X size={18} />
+      </button>
+    </div>
+  );
+};
 
-      {/* 擬真卡片區域 */}
-      <div className="flex-1 overflow-y-auto px-6 pb-10 pt-4 flex flex-col items-center no-scrollbar">
-        <div className="w-full bg-[#fffdf9] rounded-[32px] overflow-hidden shadow-2xl relative transform transition-transform hover:scale-[1.01] duration-500">
-          <div className="absolute inset-0 opacity-40 pointer-events-none" style={{ backgroundImage: 'radial-gradient(#ddd 1px, transparent 0)', backgroundSize: '24px 24px' }}></div>
-          
-          <div className={`relative p-10 pb-12 ${themeColor} text-white`}>
-             <div className="relative z-10 flex justify-between items-start">
-                <div>
-                  <h1 className="text-4xl font-black tracking-wide mb-3 drop-shadow-md">{card.name}</h1>
-                  <p className="text-white/80 text-base font-medium tracking-wider uppercase">Student Card</p>
-                </div>
-                <div className="bg-white/20 backdrop-blur-sm px-4 py-2 rounded-xl border border-white/20">
-                  <span className="font-bold text-3xl">{points}</span>
-                  <span className="text-sm ml-2 opacity-80">PTS</span>
-                </div>
-             </div>
-             <div className="absolute bottom-[-24px] left-0 w-full h-12 bg-[#fffdf9] rounded-t-[50%]"></div>
-          </div>
+// 27. TrashView (垃圾桶：復原或永久刪除)
+interface TrashViewProps extends BaseProps {
+  cards: Card[];
+  retentionDays: number;
+  onRetentionDaysChange: (days: number) => void;
+  onRestore: (cardId: number) => void;
+  onPurge: (cardIds: number[]) => void;
+}
 
-          <div className="p-8 pt-4 relative z-10">
-            <div className="grid grid-cols-5 gap-4">
-              {stamps.map((isStamped, index) => (
-                <div
-                  key={index}
-                  className={`
-                    aspect-square rounded-full flex items-center justify-center relative transition-all duration-300
-                    ${isStamped 
-                      ? 'bg-transparent' 
-                      : 'bg-gray-100/50 border-2 border-dashed border-gray-300'}
-                  `}
-                >
-                  {!isStamped && (
-                    <span className="text-gray-300 text-sm font-bold">{index + 1}</span>
-                  )}
-                  
-                  {isStamped && (
-                    <div className="absolute inset-0 flex items-center justify-center animate-in zoom-in duration-500">
-                        <svg width="80%" height="80%" viewBox="0 0 40 40" className={`${textColor} opacity-90 drop-shadow-sm rotate-[-10deg]`}>
-                           <circle cx="20" cy="20" r="18" fill="none" stroke="currentColor" strokeWidth="2.5" strokeDasharray="4 2" />
-                           <path d="M10 20 L16 26 L30 12" fill="none" stroke="currentColor" strokeWidth="4" strokeLinecap="round" strokeLinejoin="round" />
-                        </svg>
-                    </div>
-                  )}
-                </div>
-              ))}
-            </div>
-          </div>
+const TrashView: React.FC<TrashViewProps> = ({ onNavigate, cards, retentionDays, onRetentionDaysChange, onRestore, onPurge }) => {
+  const { t, formatDate } = useI18n();
+  // 永久刪除需要再按一次確認；'all' 代表清空垃圾桶
+  const [confirming, setConfirming] = useState<number | 'all' | null>(null);
+  // 縮短保留天數會讓部分卡片立即永久刪除，先請老師確認
+  const [pendingDays, setPendingDays] = useState<number | null>(null);
+  const now = Date.now();
+  const trashedCards = cards
+    .filter(card => card.deletedAt)
+    .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
+  const pendingExpiredCount = pendingDays === null ? 0 : getExpiredTrashIds(cards, pendingDays, now).size;
 
-          <div className="p-8 pt-2 text-center">
-             <p className="text-gray-400 text-sm tracking-widest uppercase border-t border-gray-200 pt-6">
-               Keep up the good work!
-             </p>
-             {points >= 30 && (
-               <div className="mt-6 bg-yellow-100 text-yellow-800 p-4 rounded-2xl text-lg font-bold animate-bounce flex items-center justify-center gap-2">
-                  <Trophy size={24} className="text-yellow-700" />
-                  🎉 太棒了！集點完成！
-               </div>
-             )}
+  const handleRetentionClick = (days: number) => {
+    if (getExpiredTrashIds(cards, days, now).size > 0) {
+      setPendingDays(days);
+      return;
+    }
+    setPendingDays(null);
+    onRetentionDaysChange(days);
+  };
+
+  const handlePurge = (target: number | 'all') => {
+    if (confirming !== target) {
+      setConfirming(target);
+      return;
+    }
+    onPurge(target === 'all' ? trashedCards.map(card => card.id) : [target]);
+    setConfirming(null);
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-[#f8f5f2] max-w-2xl mx-auto w-full shadow-2xl min-h-screen">
+      <div className="p-6 flex items-center gap-4">
+        <button onClick={() => onNavigate('home')} className="w-14 h-14 bg-white rounded-full flex items-center justify-center shadow-xs hover:bg-gray-50 transition-colors">
+          <ArrowLeft size={28} className="text-gray-600" />
+        </button>
+        <h2 className="text-3xl font-bold text-gray-800">{t('trash.title')}</h2>
+      </div>
+
+      <div className="flex-1 px-6 pb-10 space-y-6">
+        <div className="bg-white p-6 rounded-3xl shadow-xs border border-gray-100">
+          <p className="text-lg font-bold text-gray-500 mb-4 uppercase tracking-wider">{t('trash.retention')}</p>
+          <div className="grid grid-cols-4 gap-3">
+            {TRASH_RETENTION_OPTIONS.map(days => (
+              <button
+                key={days}
+                onClick={() => handleRetentionClick(days)}
+                className={`py-3 rounded-2xl font-bold text-lg border-2 transition-all ${
+                  retentionDays === days
+                    ? 'bg-rose-50 border-rose-500 text-rose-600'
+                    : pendingDays === days
+                      ? 'bg-red-50 border-red-300 text-red-500'
+                      : 'bg-gray-50 border-transparent text-gray-500 hover:bg-gray-100'
+                }`}
+              >
+                {t('common.days', { count: days })}
+              </button>
+            ))}
           </div>
+          {pendingDays !== null && (
+            <div className="mt-4 p-4 bg-red-50 rounded-2xl">
+              <p className="text-red-700 font-medium mb-3">{t('trash.retentionConfirm', { count: pendingExpiredCount, days: pendingDays })}</p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => {
+                    onRetentionDaysChange(pendingDays);
+                    setPendingDays(null);
+                  }}
+                  className="flex-1 py-2.5 bg-red-500 hover:bg-red-600 text-white font-bold rounded-xl transition-colors"
+                >
+                  {t('trash.retentionApply')}
+                </button>
+                <button
+                  onClick={() => setPendingDays(null)}
+                  className="flex-1 py-2.5 bg-white hover:bg-gray-50 text-gray-600 font-bold rounded-xl transition-colors"
+                >
+                  {t('common.cancel')}
+                </button>
+              </div>
+            </div>
+          )}
+          <p className="text-sm text-gray-400 mt-3">{t('trash.retentionHint')}</p>
         </div>
 
-        {/* 學生視角提示 */}
-        <div className="mt-8 p-4 bg-white rounded-2xl shadow-sm border border-gray-100 flex items-center gap-4 max-w-sm">
-           <div className="w-10 h-10 bg-indigo-100 rounded-full flex items-center justify-center text-indigo-600 shrink-0">
-             <Sparkles size={20} />
-           </div>
-           <div>
-             <h3 className="font-bold text-gray-800">這是您的目前進度</h3>
-             <p className="text-sm text-gray-400">請繼續加油，向老師爭取更多獎勵！</p>
-           </div>
-        </div>
-      </div>
+        {trashedCards.length === 0 ? (
+          <div className="text-center py-20 text-gray-400">
+            <Trash2 size={64} className="mx-auto mb-4 opacity-20" />
+            <p className="text-xl">{t('trash.empty')}</p>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-4">
+              {trashedCards.map(card => {
+                const daysLeft = Math.max(1, Math.ceil((getTrashExpiry(card, retentionDays) - now) / DAY_MS));
+                return (
+                  <div key={card.id} className="bg-white p-5 rounded-3xl shadow-xs border border-gray-100 flex items-center gap-4">
+                    <StudentAvatar card={card} className="w-12 h-12 text-2xl opacity-60" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-xl font-bold text-gray-800 truncate">{card.name}</p>
+                      <p className="text-sm text-gray-400">
+                        {t('trash.deletedAt', { date: formatDate(card.deletedAt!) })} · {t('trash.remaining', { count: daysLeft })}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <button
+                        onClick={() => onRestore(card.id)}
+                        className="px-4 py-2 bg-emerald-50 hover:bg-emerald-100 text-emerald-700 font-bold rounded-xl flex items-center gap-1.5 transition-colors"
+                      >
+                        <RotateCcw size={18} /> {t('trash.restore')}
+                      </button>
+                      <button
+                        onClick={() => handlePurge(card.id)}
+                        className={`px-4 py-2 font-bold rounded-xl transition-colors ${
+                          confirming === card.id ? 'bg-red-500 text-white' : 'text-gray-400 hover:text-red-500 hover:bg-red-50'
+                        }`}
+                      >
+                        {confirming === card.id ? t('trash.confirmPurge') : t('trash.purge')}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
 
-      {/* 退出預覽按鈕 (僅在模擬模式顯示) */}
-      {onExitPreview && (
-          <div className="fixed bottom-6 right-6 z-50">
-            <button 
-                onClick={onExitPreview}
-                className="bg-gray-800 hover:bg-black text-white px-6 py-4 rounded-full shadow-2xl font-bold flex items-center gap-3 transition-transform hover:scale-105 active:scale-95"
+            <button
+              onClick={() => handlePurge('all')}
+              className={`w-full py-4 font-bold rounded-2xl transition-colors ${
+                confirming === 'all' ? 'bg-red-500 text-white shadow-lg shadow-red-200' : 'bg-white text-red-500 border border-red-100 hover:bg-red-50'
+              }`}
             >
-                <LogOut size={20} />
-                退出預覽
+              {confirming === 'all' ? t('trash.confirmPurge') : t('trash.purgeAll')}
             </button>
-          </div>
-      )}
+          </>
+        )}
+      </div>
     </div>
   );
 };
 
-// 7. CardDetailView (Modified with Share)
-interface CardDetailViewProps extends BaseProps {
-  activeCard: Card | undefined;
-  onRequestDelete: (card: Card) => void;
-  onToggleStamp: (cardId: number, index: number) => void;
-  onShare: (card: Card) => void;
+// 28. ConflictBanner (其他分頁也修改了同一張卡)
+interface ConflictBannerProps {
+  conflicts: CardConflict[];
+  onResolve: (cardId: number, keep: 'local' | 'remote') => void;
 }
 
-const CardDetailView: React.FC<CardDetailViewProps> = ({ 
-  activeCard, 
-  onNavigate, 
-  onRequestDelete, 
-  onToggleStamp,
-  onShare
-}) => {
-  if (!activeCard) return null;
-  const themeColor = activeCard.themeColor || 'bg-rose-500';
-  const textColor = themeColor.replace('bg-', 'text-');
+const ConflictBanner: React.FC<ConflictBannerProps> = ({ conflicts, onResolve }) => {
+  const { t, formatDate } = useI18n();
+  if (conflicts.length === 0) return null;
+  const [{ local, remote }] = conflicts;
+  const timeOptions: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit', second: '2-digit' };
 
   return (
-    <div className="flex flex-col h-full bg-[#2a2a2a] max-w-2xl mx-auto w-full shadow-2xl min-h-screen">
-      {/* 頂部工具列 */}
-      <div className="p-6 flex justify-between items-center z-20">
-        <button onClick={() => onNavigate('records')} className="w-14 h-14 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-white/20 transition-colors text-white border border-white/10">
-          <ArrowLeft size={28} />
-        </button>
-        
-        <div className="text-white/80 font-medium text-lg">學生集點卡</div>
-
-        <div className="flex gap-3">
-            <button 
-                onClick={() => onShare(activeCard)}
-                className="w-14 h-14 bg-blue-500/80 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-blue-600/90 transition-colors text-white border border-white/10 shadow-lg"
-                title="分享給學生"
+    <div className="fixed top-16 left-1/2 -translate-x-1/2 z-[65] w-[calc(100%-2rem)] max-w-lg bg-amber-50 border border-amber-200 rounded-2xl shadow-2xl p-5 print:hidden" role="alert">
+      <div className="flex gap-3">
+        <AlertTriangle size={22} className="text-amber-600 shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <p className="font-bold text-amber-900">{t('conflict.title', { name: local.name })}</p>
+          <p className="text-sm text-amber-800 mt-1">
+            {t('conflict.description', {
+              local: local.points,
+              remote: remote.points,
+              time: formatDate(remote.updatedAt, timeOptions)
+            })}
+          </p>
+          {conflicts.length > 1 && (
+            <p className="text-xs text-amber-700 mt-1">{t('conflict.more', { count: conflicts.length - 1 })}</p>
+          )}
+          <div className="flex flex-wrap gap-2 mt-3">
+            <button
+              onClick={() => onResolve(local.id, 'local')}
+              className="px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white text-sm font-bold rounded-xl transition-colors"
             >
-                <Share2 size={24} />
+              {t('conflict.keepLocal')}
             </button>
-            <button 
-                onClick={() => onRequestDelete(activeCard)}
-                className="w-14 h-14 bg-white/10 backdrop-blur-md rounded-full flex items-center justify-center hover:bg-red-500/80 transition-colors text-white border border-white/10 group"
+            <button
+              onClick={() => onResolve(local.id, 'remote')}
+              className="px-4 py-2 bg-white hover:bg-amber-100 text-amber-800 text-sm font-bold rounded-xl border border-amber-200 transition-colors"
             >
-                <Trash2 size={24} className="group-hover:scale-110 transition-transform" />
+              {t('conflict.useRemote')}
             </button>
+          </div>
         </div>
       </div>
+    </div>
+  );
+};
 
-      {/* 擬真卡片區域 */}
-      <div className="flex-1 overflow-y-auto px-6 pb-10 flex flex-col items-center no-scrollbar">
-        <div className="w-full bg-[#fffdf9] rounded-[32px] overflow-hidden shadow-2xl relative">
-          <div className="absolute inset-0 opacity-40 pointer-events-none" style={{ backgroundImage: 'radial-gradient(#ddd 1px, transparent 0)', backgroundSize: '24px 24px' }}></div>
-          
-          <div className={`relative p-10 pb-12 ${themeColor} text-white`}>
-             <div className="relative z-10 flex justify-between items-start">
-                <div>
-                  <h1 className="text-4xl font-black tracking-wide mb-3 drop-shadow-md">{activeCard.name}</h1>
-                  <p className="text-white/80 text-base font-medium tracking-wider uppercase">Student Card</p>
-                </div>
-                <div className="bg-white/20 backdrop-blur-sm px-4 py-2 rounded-xl border border-white/20">
-                  <span className="font-bold text-3xl">{activeCard.points}</span>
-                  <span className="text-sm ml-2 opacity-80">PTS</span>
-                </div>
-             </div>
-             <div className="absolute bottom-[-24px] left-0 w-full h-12 bg-[#fffdf9] rounded-t-[50%]"></div>
-          </div>
+// 29. UndoRedoButtons (復原/重做)
+interface UndoRedoControls {
+  undoAction: CardAction | null;
+  redoAction: CardAction | null;
+  onUndo: () => void;
+  onRedo: () => void;
+}
 
-          <div className="p-8 pt-4 relative z-10">
-            <div className="grid grid-cols-5 gap-4">
-              {activeCard.stamps.map((isStamped, index) => (
-                <button
-                  key={index}
-                  onClick={() => onToggleStamp(activeCard.id, index)}
-                  className={`
-                    aspect-square rounded-full flex items-center justify-center relative transition-all duration-300
-                    ${isStamped 
-                      ? 'bg-transparent scale-100' 
-                      : 'bg-gray-100/50 hover:bg-gray-100 border-2 border-dashed border-gray-300 active:scale-95'}
-                  `}
-                >
-                  {!isStamped && (
-                    <span className="text-gray-300 text-sm font-bold">{index + 1}</span>
-                  )}
-                  
-                  <div 
-                    className={`absolute inset-0 flex items-center justify-center transition-all duration-300 ${isStamped ? 'opacity-100 scale-100 rotate-[-10deg]' : 'opacity-0 scale-150 rotate-12'}`}
-                  >
-                    <svg width="80%" height="80%" viewBox="0 0 40 40" className={`${textColor} opacity-90 drop-shadow-sm`}>
-                       <circle cx="20" cy="20" r="18" fill="none" stroke="currentColor" strokeWidth="2.5" strokeDasharray="4 2" />
-                       <path d="M10 20 L16 26 L30 12" fill="none" stroke="currentColor" strokeWidth="4" strokeLinecap="round" strokeLinejoin="round" />
-                    </svg>
-                  </div>
-                </button>
-              ))}
-            </div>
-          </div>
+interface UndoRedoButtonsProps {
+  controls: UndoRedoControls;
+  dark?: boolean;
+}
+
+const UndoRedoButtons: React.FC<UndoRedoButtonsProps> = ({ controls, dark = false }) => {
+  const { t } = useI18n();
+  const buttonClass = `w-14 h-14 rounded-full flex items-center justify-center transition-colors disabled:opacity-30 disabled:cursor-not-allowed ${
+    dark
+      ? 'bg-white/10 backdrop-blur-md text-white border border-white/10 enabled:hover:bg-white/20'
+      : 'bg-white text-gray-600 shadow-xs enabled:hover:bg-gray-50'
+  }`;
+
+  const describe = (key: 'history.undoAction' | 'history.redoAction', action: CardAction) =>
+    t(key, { action: t(`history.action.${action}`) });
+
+  return (
+    <div className="flex gap-2">
+      <button
+        onClick={controls.onUndo}
+        disabled={!controls.undoAction}
+        className={buttonClass}
+        title={controls.undoAction ? describe('history.undoAction', controls.undoAction) : t('common.undo')}
+      >
+        <Undo2 size={24} />
+      </button>
+      <button
+        onClick={controls.onRedo}
+        disabled={!controls.redoAction}
+        className={buttonClass}
+        title={controls.redoAction ? describe('history.redoAction', controls.redoAction) : t('common.redo')}
+      >
+        <Redo2 size={24} />
+      </button>
+    </div>
+  );
+};
+
+// 30. StampTypePicker (蓋章的種類與點數)
+interface StampTypePickerProps {
+  value: StampType;
+  onChange: (stampType: StampType) => void;
+  dark?: boolean;
+}
+
+const StampTypePicker: React.FC<StampTypePickerProps> = ({ value, onChange, dark = false }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="grid grid-cols-3 gap-2">
+      {STAMP_TYPES.map(stampType => (
+        <button
+          key={stampType}
+          type="button"
+          onClick={() => onChange(stampType)}
+          className={`px-3 py-3 rounded-2xl font-bold transition-colors ${
+            value === stampType
+              ? dark ? 'bg-white text-gray-800' : 'bg-indigo-500 text-white'
+              : dark ? 'bg-white/10 text-white/60 hover:bg-white/20' : 'bg-white text-gray-500 shadow-xs hover:bg-gray-50'
+          }`}
+        >
+          {t(`stampType.${stampType}`)}
+          <span className="ml-1 opacity-60">+{STAMP_TYPE_POINTS[stampType]}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
 
-          <div className="p-8 pt-2 text-center">
-             <p className="text-gray-400 text-sm tracking-widest uppercase border-t border-gray-200 pt-6">
-               Keep up the good work!
-             </p>
-             {activeCard.points >= 30 && (
-               <div className="mt-6 bg-yellow-100 text-yellow-800 p-4 rounded-2xl text-lg font-bold animate-bounce flex items-center justify-center gap-2">
-                  <Trophy size={24} className="text-yellow-700" />
-                  🎉 太棒了！集點完成！
-               </div>
-             )}
+// 31. PointLedger (點數帳本與手動加減點)
+interface PointLedgerProps {
+  balance: number;
+  ledger: PointEntry[];
+  onAdjust: (amount: number, reason: string) => void;
+}
+
+const PointLedger: React.FC<PointLedgerProps> = ({ balance, ledger, onAdjust }) => {
+  const { t, formatDate } = useI18n();
+  const [isAdjusting, setIsAdjusting] = useState(false);
+  const [amount, setAmount] = useState(1);
+  const [reason, setReason] = useState('');
+
+  const entries = [...ledger].sort((a, b) => b.at.localeCompare(a.at));
+
+  const submit = (sign: 1 | -1) => {
+    if (!reason.trim() || amount <= 0) return;
+    onAdjust(sign * amount, reason.trim());
+    setReason('');
+    setAmount(1);
+    setIsAdjusting(false);
+  };
+
+  const describeEntry = (entry: PointEntry): string => {
+    if (entry.source === 'stamp') {
+      const stampType = t(`stampType.${entry.stampType || DEFAULT_STAMP_TYPE}`);
+      return t(entry.amount >= 0 ? 'points.source.stamp' : 'points.source.unstamp', { type: stampType });
+    }
+    return t(`points.source.${entry.source}`);
+  };
+
+  return (
+    <div className="w-full mt-8 bg-white/5 rounded-3xl p-6 border border-white/10">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-white font-bold text-xl flex items-center gap-2">
+          <Coins size={22} className="text-white/60" />
+          {t('points.title')}
+          <span className="text-white/60 font-medium">{t('points.balance', { count: balance })}</span>
+        </h3>
+        <button
+          onClick={() => setIsAdjusting(!isAdjusting)}
+          className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white font-bold rounded-full transition-colors flex items-center gap-1"
+        >
+          {isAdjusting ? <X size={18} /> : <Plus size={18} />}
+          {isAdjusting ? t('common.cancel') : t('points.adjust')}
+        </button>
+      </div>
+
+      {isAdjusting && (
+        <div className="mb-6 space-y-3 bg-white/5 rounded-2xl p-4">
+          <div className="grid grid-cols-[6rem_1fr] gap-3">
+            <input
+              type="number"
+              min={1}
+              value={amount}
+              onChange={(e) => setAmount(Math.max(0, Math.floor(Number(e.target.value))))}
+              className="px-4 py-3 bg-white/10 border border-white/10 rounded-xl text-white focus:outline-hidden focus:border-white/40"
+            />
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={t('points.reasonPlaceholder')}
+              className="px-4 py-3 bg-white/10 border border-white/10 rounded-xl text-white placeholder:text-white/30 focus:outline-hidden focus:border-white/40"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => submit(1)}
+              disabled={!reason.trim() || amount <= 0}
+              className="py-3 bg-emerald-500 hover:bg-emerald-600 text-white font-bold rounded-xl transition-colors disabled:opacity-40"
+            >
+              {t('points.add', { count: amount })}
+            </button>
+            <button
+              onClick={() => submit(-1)}
+              disabled={!reason.trim() || amount <= 0}
+              className="py-3 bg-red-500 hover:bg-red-600 text-white font-bold rounded-xl transition-colors disabled:opacity-40"
+            >
+              {t('points.deduct', { count: amount })}
+            </button>
           </div>
         </div>
-        
-        <p className="text-gray-500 text-base mt-8 flex items-center gap-2 opacity-60">
-           <span className="w-5 h-5 rounded-full bg-white/20 text-white flex items-center justify-center text-xs font-serif">i</span>
-           點擊圓圈即可蓋章
-        </p>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-white/40 text-base">{t('points.empty')}</p>
+      ) : (
+        <ul className="space-y-2 max-h-80 overflow-y-auto no-scrollbar">
+          {entries.map(entry => (
+            <li key={entry.id} className="flex items-start justify-between gap-3 text-white/80">
+              <div className="min-w-0">
+                <p className="font-medium">
+                  {describeEntry(entry)}
+                  <span className="text-white/40 text-sm ml-2">
+                    {formatDate(entry.at, { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                </p>
+                {entry.reason && <p className="text-white/50 text-sm truncate">{entry.reason}</p>}
+              </div>
+              <span className={`font-bold shrink-0 ${entry.amount >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                {entry.amount >= 0 ? `+${entry.amount}` : entry.amount}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// 32. BadgeShelf (成就徽章；未獲得的徽章顯示為灰色並附上進度)
+interface BadgeShelfProps {
+  badges: BadgeProgress[];
+  dark?: boolean;
+}
+
+const BadgeShelf: React.FC<BadgeShelfProps> = ({ badges, dark = false }) => {
+  const { t } = useI18n();
+
+  return (
+    <ul className="grid grid-cols-2 gap-3">
+      {badges.map(({ rule, value, earned }) => (
+        <li
+          key={rule.id}
+          title={t(rule.description)}
+          className={`flex items-center gap-3 rounded-2xl px-4 py-3 ${
+            dark ? 'bg-white/10' : 'bg-yellow-50/70'
+          } ${earned ? '' : 'opacity-40 grayscale'}`}
+        >
+          <span className="text-3xl shrink-0">{rule.emoji}</span>
+          <div className="min-w-0">
+            <p className={`font-bold truncate ${dark ? 'text-white' : 'text-gray-700'}`}>{t(rule.title)}</p>
+            <p className={`text-sm truncate ${dark ? 'text-white/50' : 'text-gray-400'}`}>
+              {earned || rule.threshold === 1
+                ? t(rule.description)
+                : t('badge.progress', { value: Math.min(value, rule.threshold), threshold: rule.threshold })}
+            </p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+// 33. LoadErrorView (無法讀取本機資料)
+const LoadErrorView: React.FC = () => {
+  const { t } = useI18n();
+
+  return (
+    <div className="w-full min-h-screen bg-[#222] flex items-center justify-center p-6">
+      <div className="max-w-md w-full bg-white rounded-3xl shadow-2xl p-8 text-center">
+        <AlertTriangle size={48} className="text-amber-500 mx-auto mb-4" />
+        <h1 className="text-2xl font-black text-gray-800 mb-3">{t('loadError.title')}</h1>
+        <p className="text-gray-500 mb-6">{t('loadError.description')}</p>
+        <button
+          onClick={() => window.location.reload()}
+          className="w-full py-4 bg-gray-900 hover:bg-gray-800 text-white font-bold rounded-2xl transition-colors flex items-center justify-center gap-2"
+        >
+          <RotateCcw size={20} /> {t('loadError.retry')}
+        </button>
       </div>
     </div>
   );
 };
 
+// --- Cross-tab Sync ---
+
+// 課程紀錄與分組的存檔：和卡片一樣只寫入有變動的項目，存檔後通知其他分頁，並合併其他分頁存入的項目
+// 回傳的 persisted 是資料庫中的版本，讀取資料時由呼叫端設定
+const useSyncedRecords = <T extends { id: string }>(
+  kind: SyncedRecordKind,
+  records: T[],
+  setRecords: React.Dispatch<React.SetStateAction<T[]>>,
+  enabled: boolean,
+  load: () => Promise<T[]>,
+  save: (changed: T[], deletedIds: string[]) => Promise<void>
+) => {
+  const persisted = useRef<Map<string, T>>(new Map());
+  const recordsRef = useRef<T[]>(records);
+
+  useEffect(() => {
+    recordsRef.current = records;
+  }, [records]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const currentIds = new Set(records.map(record => record.id));
+    const changed = records.filter(record => persisted.current.get(record.id) !== record);
+    const deletedIds = [...persisted.current.keys()].filter(id => !currentIds.has(id));
+    if (changed.length === 0 && deletedIds.length === 0) return;
+
+    changed.forEach(record => persisted.current.set(record.id, record));
+    deletedIds.forEach(id => persisted.current.delete(id));
+    save(changed, deletedIds)
+      .then(() => broadcastRecordChanges({ kind, records: changed, deletedIds }))
+      .catch(error => console.error(`儲存 ${kind} 失敗`, error));
+  }, [records, enabled]);
+
+  // 本機尚未寫入的項目 (和資料庫中的不是同一個物件) 保留本機的版本，寫入時會覆蓋另一個分頁的
+  const applyRemote = useCallback(({ records: remoteRecords, deletedIds }: RecordChangeMessage<T>) => {
+    const current = recordsRef.current;
+    const currentById = new Map(current.map(record => [record.id, record]));
+    const replacements = new Map<string, T>();
+    remoteRecords.forEach(remote => {
+      const before = persisted.current.get(remote.id);
+      persisted.current.set(remote.id, remote);
+      if (currentById.get(remote.id) === before) replacements.set(remote.id, remote);
+    });
+    const removedIds = new Set(deletedIds.filter(id => {
+      const before = persisted.current.get(id);
+      persisted.current.delete(id);
+      return currentById.get(id) === before;
+    }));
+    if (replacements.size === 0 && removedIds.size === 0) return;
+    const added = [...replacements.values()].filter(record => !currentById.has(record.id));
+    setRecords([
+      ...current.filter(record => !removedIds.has(record.id)).map(record => replacements.get(record.id) || record),
+      ...added
+    ]);
+  }, [setRecords]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const unsubscribe = subscribeRecordChanges<T>(kind, applyRemote);
+
+    // 不支援 BroadcastChannel 或分頁在背景被暫停時，切回來再從資料庫讀一次
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'visible') return;
+      load()
+        .then(saved => {
+          const savedIds = new Set(saved.map(record => record.id));
+          applyRemote({
+            kind,
+            records: saved.filter(record => stableStringify(persisted.current.get(record.id)) !== stableStringify(record)),
+            deletedIds: [...persisted.current.keys()].filter(id => !savedIds.has(id))
+          });
+        })
+        .catch(error => console.error(`重新讀取 ${kind} 失敗`, error));
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      unsubscribe();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [kind, enabled, load, applyRemote]);
+
+  return persisted;
+};
+
 // --- Main App ---
 
 export default function App() {
-  const [currentView, setCurrentView] = useState<ViewType>('home');
+  const [initialRoute] = useState(() => parseRoute(window.location.pathname));
+  const [currentView, setCurrentView] = useState<ViewType>(initialRoute.view);
   const [cards, setCards] = useState<Card[]>([]);
-  const [activeCardId, setActiveCardId] = useState<number | null>(null);
+  const [rewardTiers, setRewardTiers] = useState<RewardTier[]>(DEFAULT_REWARD_TIERS);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [groupFilter, setGroupFilter] = useState<string | null>(null);
+  const [listPrefs, setListPrefs] = useState<RecordsListPrefs>(DEFAULT_RECORDS_LIST_PREFS);
+  const [sessionCardIds, setSessionCardIds] = useState<number[]>(initialRoute.sessionCardIds);
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [cardConflicts, setCardConflicts] = useState<CardConflict[]>([]);
+  const [cardHistory, setCardHistory] = useState<CardHistory>(EMPTY_CARD_HISTORY);
+  // 老師自己輸入的 Gemini API key，只存在這台裝置上
+  const [geminiApiKey, setGeminiApiKey] = useState('');
+  const encouragementProvider = useMemo(
+    () => geminiApiKey ? createGeminiProvider(geminiApiKey) : templateProvider,
+    [geminiApiKey]
+  );
+  // 資料庫中 (或其他分頁剛存入) 的卡片；和 cards 中不是同一個物件的卡片代表本機有尚未寫入的修改
+  const persistedCards = useRef<Map<number, Card>>(new Map());
+  const cardsRef = useRef<Card[]>(cards);
+  // 剛移到垃圾桶的卡片，顯示「復原」提示
+  const [recentlyDeleted, setRecentlyDeleted] = useState<Card | null>(null);
+  // 無法復原/重做時的提示
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null);
+  const [locale, setLocale] = useState<Locale>(detectLocale);
+  // 學生端依分享連結指定的語言開啟，切換語言不會影響老師的設定
+  const [readOnlyLocale, setReadOnlyLocale] = useState<Locale | null>(null);
+  const [activeCardId, setActiveCardId] = useState<number | null>(initialRoute.cardId);
   const [newCardName, setNewCardName] = useState<string>('');
+  const [newCardGoal, setNewCardGoal] = useState<number>(DEFAULT_CARD_GOAL);
+  const [newCardTheme, setNewCardTheme] = useState<CardTheme>(() => ({ themeColor: getRandomThemeColor(), stampIcon: 'check' }));
+  // 剛集滿一張卡的學生，用來顯示完成提示
+  const [completedCardId, setCompletedCardId] = useState<number | null>(null);
   
   // Modal state
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
   const [shareModalOpen, setShareModalOpen] = useState(false);
   const [cardToDelete, setCardToDelete] = useState<Card | null>(null);
   const [shareUrl, setShareUrl] = useState('');
+  const [shareCardName, setShareCardName] = useState('');
+  const [shareKeyFingerprint, setShareKeyFingerprint] = useState<string | null>(null);
+  // 目前分享連結的參數，模擬預覽時用同樣的方式解碼與驗證
+  const [shareParams, setShareParams] = useState<{ encoded: string; signature?: string; publicKey?: string } | null>(null);
+
+  // 本機資料讀取完成前不要寫回，避免空資料覆蓋掉既有紀錄
+  const [isDataLoaded, setIsDataLoaded] = useState(false);
+  // 讀取失敗時顯示錯誤畫面，而不是停在空白的學生列表
+  const [loadError, setLoadError] = useState(false);
 
   // Read-only mode state (Simulation or Real)
   const [isReadOnlyMode, setIsReadOnlyMode] = useState(false);
   const [isSimulation, setIsSimulation] = useState(false); // New: Track if it's a simulation
-  const [readOnlyCard, setReadOnlyCard] = useState<Partial<Card> | null>(null);
+  const [readOnlyCard, setReadOnlyCard] = useState<SharedCard | null>(null);
+  // 分享連結需要非同步驗證簽章，驗證完成前先不顯示畫面
+  const [isCheckingShare, setIsCheckingShare] = useState(() => new URLSearchParams(window.location.search).has('s'));
+
+  const persistedLessons = useSyncedRecords('lessons', lessons, setLessons, isDataLoaded && !isReadOnlyMode, loadLessons, saveLessonChanges);
+  const persistedGroups = useSyncedRecords('groups', groups, setGroups, isDataLoaded && !isReadOnlyMode, loadGroups, saveGroupChanges);
 
   // Check for shared URL on mount
   useEffect(() => {
+    const loadLocalData = async () => {
+      try {
+        const [savedCards, savedGroups, savedLessons, savedTiers, savedListPrefs, savedLocale, savedRetentionDays, savedHistory, savedGeminiApiKey] = await Promise.all([
+          loadCards(),
+          loadGroups(),
+          loadLessons(),
+          loadSetting('rewardTiers'),
+          loadSetting('recordsListPrefs'),
+          loadSetting('locale'),
+          loadSetting('trashRetentionDays'),
+          loadSetting('cardHistory'),
+          loadSetting('geminiApiKey')
+        ]);
+        // 在垃圾桶中超過保留天數的卡片 (與其課程紀錄) 在開啟時永久刪除
+        const retentionDays = savedRetentionDays || DEFAULT_TRASH_RETENTION_DAYS;
+        const normalizedCards = savedCards.map(normalizeCard);
+        const expiredIds = getExpiredTrashIds(normalizedCards, retentionDays);
+        // 過期的卡片也列在已儲存的清單中，下一次存檔時才會從資料庫刪除
+        persistedCards.current = new Map<number, Card>(normalizedCards.map(card => [card.id, card]));
+        persistedLessons.current = new Map(savedLessons.map(lesson => [lesson.id, lesson]));
+        persistedGroups.current = new Map(savedGroups.map(group => [group.id, group]));
+        // 新建立的卡片排在前面
+        setCards(normalizedCards.filter(card => !expiredIds.has(card.id)).sort((a, b) => b.id - a.id));
+        setGroups(savedGroups);
+        setLessons(savedLessons.filter(lesson => !expiredIds.has(lesson.cardId)));
+        setTrashRetentionDays(retentionDays);
+        if (savedHistory) {
+          setCardHistory(removeCardsFromHistory(compactHistoryAvatars(savedHistory), expiredIds));
+        }
+        if (savedTiers) {
+          setRewardTiers(savedTiers);
+        }
+        if (savedListPrefs) {
+          setListPrefs({ ...DEFAULT_RECORDS_LIST_PREFS, ...savedListPrefs });
+        }
+        if (isLocale(savedLocale)) {
+          setLocale(savedLocale);
+        }
+        setGeminiApiKey(savedGeminiApiKey || '');
+        setIsDataLoaded(true);
+      } catch (error) {
+        console.error("讀取資料失敗", error);
+        setLoadError(true);
+      }
+      setIsCheckingShare(false);
+    };
+
     // 使用 new URL 來安全解析，避免 origin 拼接問題
+    let sharedData: string | null = null;
+    let url: URL | null = null;
     try {
-        const url = new URL(window.location.href);
-        const sharedData = url.searchParams.get('s');
-        
-        if (sharedData) {
-          const decoded = decodeCardData(sharedData);
-          if (decoded) {
-            setIsReadOnlyMode(true);
-            setReadOnlyCard(decoded);
-            return; // Skip loading local storage if in read-only mode
-          }
-        }
+        url = new URL(window.location.href);
+        sharedData = url.searchParams.get('s');
     } catch (e) {
         console.error("URL 解析失敗", e);
     }
 
-    // Normal load
-    try {
-      const savedCards = localStorage.getItem('loyaltyCards');
-      if (savedCards) {
-        setCards(JSON.parse(savedCards));
+    if (!url || !sharedData) {
+      loadLocalData();
+      return;
+    }
+
+    let cancelled = false;
+    decodeCardData(sharedData, url.searchParams.get('sig'), url.searchParams.get('k')).then(decoded => {
+      if (cancelled) return;
+      if (decoded) {
+        setIsReadOnlyMode(true);
+        setReadOnlyCard(decoded);
+        setReadOnlyLocale(decoded.locale ?? null);
+        setIsCheckingShare(false);
+      } else {
+        loadLocalData();
       }
-    } catch (error) {
-      console.error("讀取資料失敗", error);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // 畫面切換時寫入瀏覽器歷史紀錄；上一頁/下一頁則從網址還原畫面
+  const hasSyncedRoute = useRef(false);
+  useEffect(() => {
+    if (isReadOnlyMode || isCheckingShare) return;
+    const path = routeToPath({ view: currentView, cardId: activeCardId, sessionCardIds });
+    if (path !== window.location.pathname) {
+      // 第一次只是把不完整的網址 (例如 /card) 修正成實際畫面，不新增歷史紀錄
+      if (hasSyncedRoute.current) {
+        window.history.pushState(null, '', path);
+      } else {
+        window.history.replaceState(null, '', path);
+      }
+    }
+    hasSyncedRoute.current = true;
+  }, [currentView, activeCardId, sessionCardIds, isReadOnlyMode, isCheckingShare]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const route = parseRoute(window.location.pathname);
+      setCurrentView(route.view);
+      setActiveCardId(route.cardId);
+      setSessionCardIds(route.sessionCardIds);
+      setCompletedCardId(null);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // 網址指向已不存在的學生 (例如已刪除) 時回到學生列表
+  useEffect(() => {
+    if (isDataLoaded && (currentView === 'card' || currentView === 'profile') && !cards.some(card => card.id === activeCardId && !card.deletedAt)) {
+      window.history.replaceState(null, '', toAppPath(VIEW_PATHS.records));
+      setCurrentView('records');
+      setActiveCardId(null);
+    }
+  }, [isDataLoaded, currentView, activeCardId, cards]);
+
+  useEffect(() => {
+    cardsRef.current = cards;
+  }, [cards]);
+
+  // 只寫入有變動的卡片；衝突中的卡片等老師選擇後才寫入
+  useEffect(() => {
+    if (!isDataLoaded || isReadOnlyMode) return;
+    const persisted = persistedCards.current;
+    const conflictIds = new Set(cardConflicts.map(conflict => conflict.local.id));
+    const changed = cards.filter(card => persisted.get(card.id) !== card && !conflictIds.has(card.id));
+    const currentIds = new Set(cards.map(card => card.id));
+    const deletedIds = [...persisted.keys()].filter(id => !currentIds.has(id));
+    if (changed.length === 0 && deletedIds.length === 0) return;
+
+    const baseRevisions = new Map<number, number>(changed.map(card => [card.id, persisted.get(card.id)?.revision ?? 0]));
+    // 先視為已儲存，避免寫入完成前的下一次存檔又把同一張卡當成修改
+    changed.forEach(card => persisted.set(card.id, card));
+    deletedIds.forEach(id => persisted.delete(id));
+
+    saveCardChanges(changed, deletedIds, baseRevisions)
+      .then(conflicts => {
+        const conflictIds = new Set(conflicts.map(card => card.id));
+        const saved = changed.filter(card => !conflictIds.has(card.id));
+        if (saved.length > 0 || deletedIds.length > 0) {
+          broadcastCardChanges({ cards: saved, deletedIds });
+        }
+        if (conflicts.length > 0) {
+          conflicts.forEach(remote => persisted.set(remote.id, remote));
+          const locals = changed.filter(card => conflictIds.has(card.id));
+          // 在等待寫入時可能已經收到另一個分頁的版本，畫面上先保留這裡的版本直到老師選擇
+          setCards(prev => prev.map(card => locals.find(local => local.id === card.id) || card));
+          setCardConflicts(prev => mergeConflicts(prev, locals.map(local => ({
+            local,
+            remote: conflicts.find(remote => remote.id === local.id)!
+          }))));
+        }
+      })
+      .catch(error => console.error("儲存資料失敗", error));
+  }, [cards, cardConflicts, isDataLoaded, isReadOnlyMode]);
+
+  // 合併其他分頁寫入的卡片：本機沒有修改過的直接更新，雙方都改過的列為衝突
+  const applyRemoteCards = useCallback(({ cards: remoteCards, deletedIds }: CardChangeMessage) => {
+    const persisted = persistedCards.current;
+    const current = cardsRef.current;
+    const currentById = new Map<number, Card>(current.map(card => [card.id, card]));
+    const replacements = new Map<number, Card>();
+    const newConflicts: CardConflict[] = [];
+
+    remoteCards.forEach(remote => {
+      const before = persisted.get(remote.id);
+      if (before && before.revision >= remote.revision) return;
+      persisted.set(remote.id, remote);
+      const local = currentById.get(remote.id);
+      if (local && before && local !== before) {
+        newConflicts.push({ local, remote });
+      } else {
+        replacements.set(remote.id, remote);
+      }
+    });
+
+    const removedIds = new Set(deletedIds.filter(id => {
+      const before = persisted.get(id);
+      persisted.delete(id);
+      return currentById.get(id) === before;
+    }));
+
+    if (replacements.size > 0 || removedIds.size > 0) {
+      const added = [...replacements.values()].filter(card => !currentById.has(card.id));
+      setCards([
+        ...added,
+        ...current.filter(card => !removedIds.has(card.id)).map(card => replacements.get(card.id) || card)
+      ].sort((a, b) => b.id - a.id));
+    }
+    if (newConflicts.length > 0) {
+      setCardConflicts(prev => mergeConflicts(prev, newConflicts));
     }
   }, []);
 
-  // Save to local storage (Only if not in read-only mode)
   useEffect(() => {
-    if (!isReadOnlyMode) {
-      localStorage.setItem('loyaltyCards', JSON.stringify(cards));
+    if (!isDataLoaded || isReadOnlyMode) return;
+    const unsubscribe = subscribeCardChanges(applyRemoteCards);
+
+    // 不支援 BroadcastChannel 或分頁在背景被暫停時，切回來再從資料庫讀一次
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'visible') return;
+      loadCards()
+        .then(savedCards => {
+          const savedIds = new Set(savedCards.map(card => card.id));
+          applyRemoteCards({
+            kind: 'cards',
+            cards: savedCards.map(normalizeCard),
+            deletedIds: [...persistedCards.current.keys()].filter(id => !savedIds.has(id))
+          });
+        })
+        .catch(error => console.error("重新讀取資料失敗", error));
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      unsubscribe();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [isDataLoaded, isReadOnlyMode, applyRemoteCards]);
+
+  useEffect(() => {
+    if (isDataLoaded && !isReadOnlyMode) {
+      saveSetting('geminiApiKey', geminiApiKey).catch(error => console.error("儲存 Gemini API key 失敗", error));
+    }
+  }, [geminiApiKey, isDataLoaded, isReadOnlyMode]);
+
+  useEffect(() => {
+    if (isDataLoaded && !isReadOnlyMode) {
+      saveSetting('cardHistory', cardHistory).catch(error => console.error("儲存復原紀錄失敗", error));
+    }
+  }, [cardHistory, isDataLoaded, isReadOnlyMode]);
+
+  useEffect(() => {
+    if (isDataLoaded && !isReadOnlyMode) {
+      saveSetting('trashRetentionDays', trashRetentionDays).catch(error => console.error("儲存垃圾桶設定失敗", error));
+    }
+  }, [trashRetentionDays, isDataLoaded, isReadOnlyMode]);
+
+  useEffect(() => {
+    if (isDataLoaded && !isReadOnlyMode) {
+      saveSetting('recordsListPrefs', listPrefs).catch(error => console.error("儲存列表設定失敗", error));
+    }
+  }, [listPrefs, isDataLoaded, isReadOnlyMode]);
+
+  useEffect(() => {
+    if (isDataLoaded && !isReadOnlyMode) {
+      saveSetting('rewardTiers', rewardTiers).catch(error => console.error("儲存獎勵設定失敗", error));
+    }
+  }, [rewardTiers, isDataLoaded, isReadOnlyMode]);
+
+  useEffect(() => {
+    if (isDataLoaded && !isReadOnlyMode) {
+      saveSetting('locale', locale).catch(error => console.error("儲存語言設定失敗", error));
+    }
+  }, [locale, isDataLoaded, isReadOnlyMode]);
+
+  const displayLocale = isReadOnlyMode ? readOnlyLocale ?? locale : locale;
+  const i18n = createI18n(displayLocale, isReadOnlyMode ? setReadOnlyLocale : setLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = displayLocale;
+  }, [displayLocale]);
+
+  const historyState: HistoryState = { cards, lessons, groups, rewardTiers };
+
+  // 所有卡片的修改都經過這裡：有變動的卡片帶上新的 revision，並記錄成可以復原的一步
+  // 同一個操作修改的課程紀錄、分組與獎勵設定由 related 傳入，和卡片記錄在同一步
+  // action 為 null 的修改 (例如永久刪除) 不會進入復原紀錄
+  const commitCards = (next: Card[], action: CardAction | null, related: Partial<Omit<HistoryState, 'cards'>> = {}) => {
+    const touched = touchCards(cards, next);
+    setCards(touched);
+    if (related.lessons) setLessons(related.lessons);
+    if (related.groups) setGroups(related.groups);
+    if (related.rewardTiers) setRewardTiers(related.rewardTiers);
+    const entry = action && createHistoryEntry(historyState, { ...historyState, ...related, cards: touched }, action);
+    if (entry) {
+      setCardHistory(prev => ({ undo: [...prev.undo, entry].slice(-CARD_HISTORY_LIMIT), redo: [] }));
+    }
+  };
+
+  const stepHistory = (direction: 'undo' | 'redo') => {
+    const stack = cardHistory[direction];
+    const entry = stack[stack.length - 1];
+    if (!entry) return;
+    const next = applyHistoryEntry(historyState, entry, direction);
+    if (!canApplyHistoryEntry(historyState, entry, direction) || hasOrphanLessons(next)) {
+      // 資料在這一步之後又被修改過：不套用，移除這一步並提示老師
+      setCardHistory({ ...cardHistory, [direction]: stack.slice(0, -1) });
+      setRecentlyDeleted(null);
+      const action: CardAction = entry.action;
+      setHistoryNotice(i18n.t(direction === 'undo' ? 'history.undoStale' : 'history.redoStale', {
+        action: i18n.t(`history.action.${action}`)
+      }));
+      return;
     }
-  }, [cards, isReadOnlyMode]);
+    setCards(touchCards(cards, next.cards));
+    if (entry.lessonChanges) setLessons(next.lessons);
+    if (entry.groups) setGroups(next.groups);
+    // 復原或重做讓篩選中的分組消失時，回到全部學生，避免清單變成空白
+    if (entry.groups && groupFilter && !next.groups.some(group => group.id === groupFilter)) {
+      setGroupFilter(null);
+    }
+    if (entry.rewardTiers) setRewardTiers(next.rewardTiers);
+    setCardHistory(direction === 'undo'
+      ? { undo: cardHistory.undo.slice(0, -1), redo: [...cardHistory.redo, entry] }
+      : { undo: [...cardHistory.undo, entry], redo: cardHistory.redo.slice(0, -1) });
+  };
+
+  const undoCards = () => stepHistory('undo');
+  const redoCards = () => stepHistory('redo');
+
+  // 桌機的快捷鍵：Ctrl/⌘+Z 復原，Ctrl/⌘+Shift+Z 或 Ctrl+Y 重做 (輸入框中保留瀏覽器原本的文字復原)
+  const undoRedoRef = useRef({ undo: undoCards, redo: redoCards });
+  undoRedoRef.current = { undo: undoCards, redo: redoCards };
+  useEffect(() => {
+    if (!isDataLoaded || isReadOnlyMode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoRedoRef.current.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        undoRedoRef.current.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isDataLoaded, isReadOnlyMode]);
+
+  const resolveConflict = (cardId: number, keep: 'local' | 'remote') => {
+    const conflict = cardConflicts.find(item => item.local.id === cardId);
+    if (!conflict) return;
+    // 發生衝突後兩邊都可能又有修改：本機以畫面上目前的卡片為準，另一個分頁以最後收到的版本為準
+    const local = cards.find(card => card.id === cardId) || conflict.local;
+    const remote = persistedCards.current.get(cardId) || conflict.remote;
+    const resolved = keep === 'remote'
+      ? remote
+      // 以資料庫中的版本為基準再加 1，下一次存檔就會覆蓋另一個分頁的修改
+      : { ...local, revision: Math.max(local.revision, remote.revision) + 1, updatedAt: new Date().toISOString() };
+    setCards(cards.map(card => card.id === cardId ? resolved : card));
+    setCardConflicts(cardConflicts.filter(item => item !== conflict));
+  };
 
   const handleCreateCard = (e: React.FormEvent) => {
     e.preventDefault();
     if (!newCardName.trim()) return;
 
+    const now = new Date();
     const newCard: Card = {
-      id: Date.now(),
+      id: now.getTime(),
       name: newCardName,
       points: 0,
-      stamps: Array(30).fill(false),
-      createdAt: new Date().toLocaleDateString('zh-TW'),
-      themeColor: ['bg-rose-500', 'bg-indigo-500', 'bg-emerald-500', 'bg-orange-500'][Math.floor(Math.random() * 4)] 
+      stamps: Array(newCardGoal).fill(false),
+      createdAt: now.toISOString(),
+      ...newCardTheme,
+      history: [],
+      pointLedger: [],
+      goal: newCardGoal,
+      round: 1,
+      roundStartedAt: now.toISOString(),
+      completedRounds: [],
+      redemptions: [],
+      revertedBatchIds: [],
+      profile: { ...EMPTY_PROFILE },
+      revision: 1,
+      updatedAt: now.toISOString(),
+      // 從某個分組的列表新增時，直接加入該分組
+      groupIds: groupFilter ? [groupFilter] : []
     };
 
     const updatedCards = [newCard, ...cards];
-    setCards(updatedCards);
+    commitCards(updatedCards, 'create');
     setNewCardName('');
+    setNewCardGoal(DEFAULT_CARD_GOAL);
+    setNewCardTheme({ themeColor: getRandomThemeColor(), stampIcon: 'check' });
     setActiveCardId(newCard.id);
     setCurrentView('card');
   };
@@ -769,11 +5911,14 @@ export default function App() {
     setDeleteModalOpen(true);
   };
 
+  // 刪除只是移到垃圾桶，保留天數過後才會永久刪除
   const confirmDelete = () => {
     if (!cardToDelete) return;
     
-    const updatedCards = cards.filter(card => card.id !== cardToDelete.id);
-    setCards(updatedCards);
+    const deletedAt = new Date().toISOString();
+    const updatedCards = cards.map(card => card.id === cardToDelete.id ? { ...card, deletedAt } : card);
+    commitCards(updatedCards, 'delete');
+    setRecentlyDeleted(cardToDelete);
     
     if (activeCardId === cardToDelete.id) {
       setCurrentView('records');
@@ -784,44 +5929,222 @@ export default function App() {
     setCardToDelete(null);
   };
 
+  const restoreCard = (cardId: number) => {
+    commitCards(cards.map(card => card.id === cardId ? { ...card, deletedAt: undefined } : card), 'restore');
+    if (recentlyDeleted?.id === cardId) {
+      setRecentlyDeleted(null);
+    }
+  };
+
+  const purgeCards = (cardIds: number[]) => {
+    const ids = new Set(cardIds);
+    commitCards(cards.filter(card => !ids.has(card.id)), null);
+    setCardHistory(prev => removeCardsFromHistory(prev, ids));
+    setLessons(lessons.filter(lesson => !ids.has(lesson.cardId)));
+  };
+
+  // 縮短保留天數時，已經過期的卡片立即永久刪除 (TrashView 會先請老師確認)
+  // 其他過期的卡片只在開啟 App 時 (loadLocalData) 永久刪除，App 開著的期間不會自動刪除
+  const changeTrashRetentionDays = (days: number) => {
+    setTrashRetentionDays(days);
+    const expiredIds = getExpiredTrashIds(cards, days);
+    if (expiredIds.size > 0) {
+      purgeCards([...expiredIds]);
+    }
+  };
+
+  const dismissUndoToast = useCallback(() => setRecentlyDeleted(null), []);
+  const dismissHistoryNotice = useCallback(() => setHistoryNotice(null), []);
+
   const handleSelectCard = (cardId: number) => {
     setActiveCardId(cardId);
+    setCompletedCardId(null);
+    setCurrentView('card');
+  };
+
+  const toggleStamp = (cardId: number, index: number, reason?: string, stampType?: StampType) => {
+    let completed = false;
+    const updatedCards = cards.map(card => {
+      if (card.id === cardId) {
+        const result = applyStampToggle(card, index, 'manual', { reason, stampType });
+        completed = result.completed;
+        return result.card;
+      }
+      return card;
+    });
+    commitCards(updatedCards, 'stamp');
+    setCompletedCardId(completed ? cardId : null);
+  };
+
+  const adjustPoints = (cardId: number, amount: number, reason: string) => {
+    commitCards(cards.map(card => card.id === cardId ? adjustCardPoints(card, amount, reason) : card), 'points');
+  };
+
+  const handleStartSession = (cardIds: number[]) => {
+    setSessionCardIds(cardIds);
+    setCurrentView('session');
+  };
+
+  // 課堂模式：同一次確認的所有蓋章共用一個 batchId，之後可以整批復原
+  const applySessionStamps = (counts: Map<number, number>, reason: string | undefined, stampType: StampType) => {
+    const batchId = createId();
+    const updatedCards = cards.map(card => {
+      let updated = card;
+      for (let i = 0; i < (counts.get(card.id) || 0); i++) {
+        updated = addStamp(updated, 'session', { reason, batchId, stampType }).card;
+      }
+      return updated;
+    });
+    commitCards(updatedCards, 'session');
+  };
+
+  const revertBatch = (batchId: string) => {
+    let skipped = 0;
+    const updatedCards = cards.map(card => {
+      if (!card.history.some(event => event.batchId === batchId)) return card;
+      const result = revertStampBatch(card, batchId);
+      skipped += result.skipped;
+      return result.card;
+    });
+    commitCards(updatedCards, 'revertSession');
+    return skipped;
+  };
+
+  // 記錄一堂課；出席且有給章時，依序蓋在集點卡上
+  const addLesson = (cardId: number, draft: LessonDraft) => {
+    const lesson: Lesson = { ...draft, id: createId(), cardId };
+    let completed = false;
+    const updatedCards = cards.map(card => {
+      if (card.id !== cardId) return card;
+      let updated = card;
+      for (let i = 0; i < lesson.stampsAwarded; i++) {
+        const result = addStamp(updated, 'lesson', {
+          reason: lesson.topic || undefined,
+          lessonId: lesson.id,
+          at: getLessonStampTime(lesson.date)
+        });
+        updated = result.card;
+        completed = completed || result.completed;
+      }
+      return updated;
+    });
+    commitCards(updatedCards, 'lesson', { lessons: [...lessons, lesson] });
+    setCompletedCardId(completed ? cardId : null);
+  };
+
+  // 刪除課程時一併收回這堂課給的章 (LessonLog 會先請老師確認)
+  const deleteLesson = (lessonId: string) => {
+    const lesson = lessons.find(item => item.id === lessonId);
+    if (!lesson) return;
+    commitCards(
+      cards.map(card => card.id === lesson.cardId ? revertLessonStamps(card, lessonId) : card),
+      'deleteLesson',
+      { lessons: lessons.filter(item => item.id !== lessonId) }
+    );
+  };
+
+  const saveCardProfile = (cardId: number, draft: ProfileDraft) => {
+    commitCards(cards.map(card => card.id === cardId ? { ...card, ...draft } : card), 'profile');
     setCurrentView('card');
   };
 
-  const toggleStamp = (cardId: number, index: number) => {
+  const changeCardTheme = (cardId: number, theme: CardTheme) => {
+    commitCards(cards.map(card => card.id === cardId ? { ...card, ...theme } : card), 'theme');
+  };
+
+  const changeCardLocale = (cardId: number, cardLocale: Locale | undefined) => {
+    commitCards(cards.map(card => card.id === cardId ? { ...card, locale: cardLocale } : card), 'locale');
+  };
+
+  const redeemReward = (cardId: number, tierId: string, round: number) => {
+    const updatedCards = cards.map(card => {
+      if (card.id === cardId && !isRewardRedeemed(card, tierId, round)) {
+        const redemption: RewardRedemption = { tierId, round, redeemedAt: new Date().toISOString() };
+        return { ...card, redemptions: [...card.redemptions, redemption] };
+      }
+      return card;
+    });
+    commitCards(updatedCards, 'redeem');
+  };
+
+  const handleImport = (data: BackupData) => {
+    commitCards(data.cards, 'import', { lessons: data.lessons, groups: data.groups, rewardTiers: data.rewardTiers });
+    setGroupFilter(null);
+    setActiveCardId(null);
+  };
+
+  const handleGroupsChange = (updatedGroups: Group[]) => {
+    // 刪除分組時，一併把學生從該分組移除
+    const groupIds = new Set(updatedGroups.map(group => group.id));
+    commitCards(cards.map(card =>
+      card.groupIds.every(id => groupIds.has(id)) ? card : { ...card, groupIds: card.groupIds.filter(id => groupIds.has(id)) }
+    ), 'group', { groups: updatedGroups });
+    if (groupFilter && !groupIds.has(groupFilter)) {
+      setGroupFilter(null);
+    }
+  };
+
+  const toggleCardGroup = (cardId: number, groupId: string) => {
     const updatedCards = cards.map(card => {
       if (card.id === cardId) {
-        const newStamps = [...card.stamps];
-        newStamps[index] = !newStamps[index];
-        const newPoints = newStamps.filter(Boolean).length;
-        return { ...card, stamps: newStamps, points: newPoints };
+        const groupIds = card.groupIds.includes(groupId)
+          ? card.groupIds.filter(id => id !== groupId)
+          : [...card.groupIds, groupId];
+        return { ...card, groupIds };
       }
       return card;
     });
-    setCards(updatedCards);
+    commitCards(updatedCards, 'group');
+  };
+
+  const handleSelectGroup = (groupId: string) => {
+    setGroupFilter(groupId);
+    setCurrentView('records');
   };
 
   // 處理分享連結生成
-  const handleShare = (card: Card) => {
-    const encoded = encodeCardData(card);
+  const handleShare = async (card: Card) => {
+    const earnedBadgeIds = computeBadges(card, lessons.filter(lesson => lesson.cardId === card.id))
+      .filter(badge => badge.earned)
+      .map(badge => badge.rule.id);
+    const encoded = encodeCardData(card, getSharedRewards(card, rewardTiers), earnedBadgeIds);
+
+    // 無法簽章 (例如非 HTTPS 環境沒有 WebCrypto) 時仍提供未簽章的連結
+    let signed: Awaited<ReturnType<typeof signCardData>> | null = null;
+    try {
+        signed = await signCardData(encoded);
+    } catch (e) {
+        console.error("簽章失敗", e);
+    }
+
+    setShareParams({ encoded, signature: signed?.signature, publicKey: signed?.publicKey });
+    setShareKeyFingerprint(signed?.keyFingerprint ?? null);
+    setShareCardName(card.name);
     try {
         const currentUrl = new URL(window.location.href);
+        // 分享連結一律從首頁開啟，不帶出老師目前所在的畫面
+        currentUrl.pathname = toAppPath(VIEW_PATHS.home);
         currentUrl.search = '';
         currentUrl.searchParams.set('s', encoded);
+        if (signed) {
+          currentUrl.searchParams.set('sig', signed.signature);
+          currentUrl.searchParams.set('k', signed.publicKey);
+        }
         setShareUrl(currentUrl.toString());
         setShareModalOpen(true);
     } catch (e) {
-        setShareUrl(`請手動複製: ?s=${encoded}`);
+        setShareUrl(i18n.t('share.manualCopy', { query: `?s=${encoded}` }));
         setShareModalOpen(true);
     }
   };
 
   // 處理「模擬預覽」功能 (新功能)
-  const handleSimulate = () => {
-    const activeCard = cards.find(c => c.id === activeCardId);
-    if (activeCard) {
-        setReadOnlyCard(activeCard);
+  const handleSimulate = async () => {
+    if (!shareParams) return;
+    const decoded = await decodeCardData(shareParams.encoded, shareParams.signature, shareParams.publicKey);
+    if (decoded) {
+        setReadOnlyCard(decoded);
+        setReadOnlyLocale(decoded.locale ?? null);
         setIsReadOnlyMode(true);
         setIsSimulation(true);
         setShareModalOpen(false);
@@ -833,71 +6156,210 @@ export default function App() {
     setIsReadOnlyMode(false);
     setIsSimulation(false);
     setReadOnlyCard(null);
+    setReadOnlyLocale(null);
   };
 
   // Render Logic
+
+  if (isCheckingShare) return null;
   
   if (isReadOnlyMode && readOnlyCard) {
+    // 分享連結 (包含老師的預覽) 一律使用離線範本，不會把學生的資料送到遠端
     return (
-        <StudentReadOnlyView 
-            card={readOnlyCard} 
-            onExitPreview={isSimulation ? handleExitSimulation : undefined}
-        />
+      <I18nContext.Provider value={i18n}>
+        <EncouragementContext.Provider value={templateProvider}>
+          <OfflineIndicator />
+          <StudentReadOnlyView 
+              card={readOnlyCard} 
+              onExitPreview={isSimulation ? handleExitSimulation : undefined}
+          />
+        </EncouragementContext.Provider>
+      </I18nContext.Provider>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <I18nContext.Provider value={i18n}>
+        <LoadErrorView />
+      </I18nContext.Provider>
     );
   }
 
-  const activeCard = cards.find(c => c.id === activeCardId);
+  const undoRedo: UndoRedoControls = {
+    undoAction: cardHistory.undo[cardHistory.undo.length - 1]?.action ?? null,
+    redoAction: cardHistory.redo[cardHistory.redo.length - 1]?.action ?? null,
+    onUndo: undoCards,
+    onRedo: redoCards
+  };
+
+  // 垃圾桶中的卡片只出現在垃圾桶與備份中
+  const visibleCards = cards.filter(card => !card.deletedAt);
+  const activeCard = visibleCards.find(c => c.id === activeCardId);
 
   return (
-    <div className="w-full min-h-screen bg-[#222]">
-      {currentView === 'home' && (
-        <HomeView 
-          onNavigate={setCurrentView} 
-          cardCount={cards.length} 
-        />
-      )}
+    <I18nContext.Provider value={i18n}>
+      <EncouragementContext.Provider value={encouragementProvider}>
+      <div className="w-full min-h-screen bg-[#222]">
+        <OfflineIndicator />
+        <ConflictBanner conflicts={cardConflicts} onResolve={resolveConflict} />
+        {currentView === 'home' && (
+          <HomeView 
+            onNavigate={setCurrentView} 
+            cards={visibleCards}
+            trashCount={cards.length - visibleCards.length}
+            groups={groups}
+            onSelectGroup={handleSelectGroup}
+            onSelectCard={handleSelectCard}
+          />
+        )}
       
-      {currentView === 'create' && (
-        <CreateView 
-          onNavigate={setCurrentView} 
-          onCreate={handleCreateCard}
-          newCardName={newCardName}
-          setNewCardName={setNewCardName}
-        />
-      )}
+        {currentView === 'create' && (
+          <CreateView 
+            onNavigate={setCurrentView} 
+            onCreate={handleCreateCard}
+            newCardName={newCardName}
+            setNewCardName={setNewCardName}
+            newCardGoal={newCardGoal}
+            setNewCardGoal={setNewCardGoal}
+            newCardTheme={newCardTheme}
+            setNewCardTheme={setNewCardTheme}
+          />
+        )}
       
-      {currentView === 'records' && (
-        <RecordsView 
-          onNavigate={setCurrentView} 
-          cards={cards} 
-          onRequestDelete={requestDelete}
-          onSelect={handleSelectCard}
-        />
-      )}
+        {currentView === 'records' && (
+          <RecordsView 
+            onNavigate={setCurrentView} 
+            cards={visibleCards} 
+            groups={groups}
+            groupFilter={groupFilter}
+            onGroupFilterChange={setGroupFilter}
+            listPrefs={listPrefs}
+            onListPrefsChange={setListPrefs}
+            onRequestDelete={requestDelete}
+            onSelect={handleSelectCard}
+            onStartSession={handleStartSession}
+            undoRedo={undoRedo}
+          />
+        )}
       
-      {currentView === 'card' && (
-        <CardDetailView 
-          activeCard={activeCard} 
-          onNavigate={setCurrentView}
-          onRequestDelete={requestDelete}
-          onToggleStamp={toggleStamp}
-          onShare={handleShare}
+        {currentView === 'card' && (
+          <CardDetailView 
+            activeCard={activeCard} 
+            onNavigate={setCurrentView}
+            onRequestDelete={requestDelete}
+            onToggleStamp={toggleStamp}
+            onAdjustPoints={adjustPoints}
+            onShare={handleShare}
+            justCompleted={completedCardId !== null && completedCardId === activeCardId}
+            rewardTiers={rewardTiers}
+            onRedeem={redeemReward}
+            groups={groups}
+            onToggleGroup={toggleCardGroup}
+            lessons={lessons.filter(lesson => lesson.cardId === activeCardId)}
+            onAddLesson={addLesson}
+            onDeleteLesson={deleteLesson}
+            onChangeLocale={changeCardLocale}
+            onChangeTheme={changeCardTheme}
+            onEditProfile={() => setCurrentView('profile')}
+            undoRedo={undoRedo}
+          />
+        )}
+
+        {currentView === 'profile' && activeCard && (
+          <ProfileEditView
+            key={activeCard.id}
+            card={activeCard}
+            onNavigate={setCurrentView}
+            onSave={saveCardProfile}
+          />
+        )}
+
+        {currentView === 'backup' && (
+          <BackupView 
+            onNavigate={setCurrentView}
+            data={{ cards, rewardTiers, groups, lessons }}
+            onImport={handleImport}
+          />
+        )}
+
+        {currentView === 'session' && (
+          <ClassSessionView 
+            onNavigate={setCurrentView}
+            cards={visibleCards}
+            sessionCardIds={sessionCardIds}
+            onConfirm={applySessionStamps}
+            onRevertBatch={revertBatch}
+          />
+        )}
+
+        {currentView === 'calendar' && (
+          <CalendarView 
+            onNavigate={setCurrentView}
+            cards={visibleCards}
+            lessons={lessons}
+          />
+        )}
+
+        {currentView === 'groups' && (
+          <GroupsView 
+            onNavigate={setCurrentView}
+            groups={groups}
+            cards={visibleCards}
+            onChange={handleGroupsChange}
+          />
+        )}
+
+        {currentView === 'rewards' && (
+          <RewardSettingsView 
+            onNavigate={setCurrentView}
+            tiers={rewardTiers}
+            onChange={setRewardTiers}
+            geminiApiKey={geminiApiKey}
+            onGeminiApiKeyChange={setGeminiApiKey}
+          />
+        )}
+
+        {currentView === 'trash' && (
+          <TrashView 
+            onNavigate={setCurrentView}
+            cards={cards}
+            retentionDays={trashRetentionDays}
+            onRetentionDaysChange={changeTrashRetentionDays}
+            onRestore={restoreCard}
+            onPurge={purgeCards}
+          />
+        )}
+
+        <DeleteConfirmModal 
+          isOpen={deleteModalOpen} 
+          onClose={() => setDeleteModalOpen(false)}
+          onConfirm={confirmDelete}
+          cardName={cardToDelete?.name}
+          retentionDays={trashRetentionDays}
         />
-      )}
 
-      <DeleteConfirmModal 
-        isOpen={deleteModalOpen} 
-        onClose={() => setDeleteModalOpen(false)}
-        onConfirm={confirmDelete}
-        cardName={cardToDelete?.name}
-      />
-
-      <ShareModal 
-        isOpen={shareModalOpen}
-        onClose={() => setShareModalOpen(false)}
-        shareUrl={shareUrl}
-        onSimulate={handleSimulate}
-      />
-    </div>
+        {recentlyDeleted && (
+          <UndoToast
+            message={i18n.t('trash.moved', { name: recentlyDeleted.name })}
+            onUndo={() => restoreCard(recentlyDeleted.id)}
+            onDismiss={dismissUndoToast}
+          />
+        )}
+        {historyNotice && (
+          <UndoToast message={historyNotice} onDismiss={dismissHistoryNotice} />
+        )}
+
+        <ShareModal 
+          isOpen={shareModalOpen}
+          onClose={() => setShareModalOpen(false)}
+          shareUrl={shareUrl}
+          cardName={shareCardName}
+          keyFingerprint={shareKeyFingerprint}
+          onSimulate={handleSimulate}
+        />
+      </div>
+      </EncouragementContext.Provider>
+    </I18nContext.Provider>
   );
 }
\ No newline at end of file
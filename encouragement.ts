@@ -0,0 +1,147 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { translate, useI18n, type Locale, type MessageKey } from './i18n';
+
+// --- Encouragement Messages ---
+// 卡片底部的鼓勵文字由 provider 產生；預設使用離線範本，老師在設定中輸入自己的 Gemini API key 後才改由 Gemini 產生
+// API key 只存在老師的裝置上，不會打包進程式碼；學生開啟的分享連結一律使用離線範本
+// 測試或離線展示時可以用 EncouragementContext.Provider 換成 createStubProvider
+
+// 學生目前的進度階段
+export type ProgressStage = 'justStarted' | 'halfway' | 'oneAway' | 'completed';
+
+// 產生鼓勵文字所需的卡片狀態，相同的內容會使用快取中的文字
+// name 只用在離線範本，不會傳給遠端的 provider
+export interface EncouragementRequest {
+  name: string;
+  stamped: number;                                  // 目前這張卡蓋了幾格
+  goal: number;
+  completed: boolean;                               // 剛集滿一張卡
+  nextReward: { stamps: number; label: string } | null;  // 下一個尚未兌換的獎勵
+  locale: Locale;
+}
+
+export interface EncouragementProvider {
+  id: string;
+  generate: (request: EncouragementRequest) => Promise<string>;
+}
+
+const GEMINI_MODEL = 'gemini-2.5-flash';
+const GEMINI_ENDPOINT = `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent`;
+const GEMINI_TIMEOUT_MS = 8000;
+
+const STAGE_MESSAGES: Record<ProgressStage, MessageKey> = {
+  justStarted: 'encouragement.justStarted',
+  halfway: 'encouragement.halfway',
+  oneAway: 'encouragement.oneAway',
+  completed: 'encouragement.completed'
+};
+
+export const getProgressStage = (request: EncouragementRequest): ProgressStage => {
+  if (request.completed || request.stamped >= request.goal) return 'completed';
+  const target = request.nextReward ? request.nextReward.stamps : request.goal;
+  if (target - request.stamped === 1) return 'oneAway';
+  if (request.stamped * 2 >= request.goal) return 'halfway';
+  return 'justStarted';
+};
+
+// 離線範本 (同步)，也是其他 provider 失敗時與等待回應期間顯示的文字
+export const getTemplateMessage = (request: EncouragementRequest): string => {
+  const target = request.nextReward ? request.nextReward.stamps : request.goal;
+  return translate(request.locale, STAGE_MESSAGES[getProgressStage(request)], {
+    name: request.name,
+    count: Math.max(0, target - request.stamped),
+    reward: request.nextReward?.label || translate(request.locale, 'encouragement.fullCard')
+  });
+};
+
+export const templateProvider: EncouragementProvider = {
+  id: 'template',
+  generate: async (request) => getTemplateMessage(request)
+};
+
+// 固定回傳指定文字 (或由函式產生)，供測試與離線展示使用
+export const createStubProvider = (
+  message: string | ((request: EncouragementRequest) => string)
+): EncouragementProvider => ({
+  id: 'stub',
+  generate: async (request) => typeof message === 'string' ? message : message(request)
+});
+
+const buildGeminiPrompt = (request: EncouragementRequest): string => {
+  const stage = getProgressStage(request);
+  const language = request.locale === 'en' ? 'English' : 'Traditional Chinese (Taiwan)';
+  return [
+    `Write one short, warm encouragement line for a child on a tutoring reward stamp card.`,
+    `Reply in ${language} only, at most 25 words (or 30 Chinese characters), no quotes, no emoji overload.`,
+    `Do not mention any name. Stamps on this card: ${request.stamped}/${request.goal}. Progress stage: ${stage}.`,
+    request.nextReward ? `Next reward at ${request.nextReward.stamps} stamps: ${request.nextReward.label}.` : ''
+  ].filter(Boolean).join('\n');
+};
+
+// 呼叫 Gemini 產生文字 (不會送出學生的名字)；離線、逾時或回應異常時會 reject，由 generateEncouragement 改用離線範本
+export const createGeminiProvider = (apiKey: string): EncouragementProvider => ({
+  id: `gemini:${GEMINI_MODEL}`,
+  generate: async (request) => {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) throw new Error('目前離線');
+    const response = await fetch(GEMINI_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+      body: JSON.stringify({ contents: [{ parts: [{ text: buildGeminiPrompt(request) }] }] }),
+      signal: AbortSignal.timeout(GEMINI_TIMEOUT_MS)
+    });
+    if (!response.ok) throw new Error(`Gemini 回應 ${response.status}`);
+    const data = await response.json();
+    const text: unknown = data?.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (typeof text !== 'string' || !text.trim()) throw new Error('Gemini 沒有回傳文字');
+    return text.trim();
+  }
+});
+
+// 沒有包在 Provider 中的畫面 (例如學生端的分享連結) 只會使用離線範本
+export const EncouragementContext = createContext<EncouragementProvider>(templateProvider);
+
+// 依 provider 與卡片狀態快取，同一個狀態只會產生一次 (重新整理後才會重新產生)
+const messageCache = new Map<string, Promise<string>>();
+
+const getCacheKey = (provider: EncouragementProvider, request: EncouragementRequest): string =>
+  JSON.stringify([provider.id, request.locale, request.name, request.stamped, request.goal, request.completed, request.nextReward]);
+
+export const generateEncouragement = (
+  provider: EncouragementProvider,
+  request: EncouragementRequest
+): Promise<string> => {
+  const key = getCacheKey(provider, request);
+  let message = messageCache.get(key);
+  if (!message) {
+    message = provider.generate(request).catch(error => {
+      // 失敗的結果不留在快取中，下次 (例如恢復連線後) 再試
+      messageCache.delete(key);
+      console.error('產生鼓勵文字失敗，改用離線範本', error);
+      return getTemplateMessage(request);
+    });
+    messageCache.set(key, message);
+  }
+  return message;
+};
+
+// 傳回目前卡片狀態的鼓勵文字 (使用目前的介面語言)；provider 還沒回應前先顯示離線範本
+export const useEncouragement = (request: Omit<EncouragementRequest, 'locale'>): string => {
+  const provider = useContext(EncouragementContext);
+  const { locale } = useI18n();
+  const fullRequest: EncouragementRequest = { ...request, locale };
+  const key = getCacheKey(provider, fullRequest);
+  const [resolved, setResolved] = useState<{ key: string; message: string } | null>(null);
+
+  // fullRequest 每次 render 都是新物件，改用 key 判斷卡片狀態是否改變
+  useEffect(() => {
+    let cancelled = false;
+    generateEncouragement(provider, fullRequest).then(message => {
+      if (!cancelled) setResolved({ key, message });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [provider, key]);
+
+  return resolved?.key === key ? resolved.message : getTemplateMessage(fullRequest);
+};
@@ -0,0 +1,786 @@
+import { createContext, useContext } from 'react';
+
+// --- Localization ---
+// 所有介面文字都放在訊息目錄中；zh-TW 是主要語系，其他語系必須提供完全相同的 key
+// 訊息中的 {name} 會被參數取代；需要單複數變化的訊息可以寫成 { one, other }，依 count 參數挑選
+
+export type Locale = 'zh-TW' | 'en';
+
+export const LOCALES: Locale[] = ['zh-TW', 'en'];
+export const DEFAULT_LOCALE: Locale = 'zh-TW';
+
+// 語言選單中顯示的名稱 (一律用該語言本身的寫法)
+export const LOCALE_LABELS: Record<Locale, string> = {
+  'zh-TW': '繁體中文',
+  en: 'English'
+};
+
+type PluralMessage = { one: string; other: string };
+type Message = string | PluralMessage;
+
+const zhTW = {
+  // 共用
+  'common.cancel': '取消',
+  'common.close': '關閉',
+  'common.add': '新增',
+  'common.delete': '刪除',
+  'common.allStudents': '全部學生',
+  'common.studentCount': '{count} 位學生',
+  'common.stampCount': '{count} 個章',
+  'common.minutes': '{count} 分鐘',
+  'common.days': '{count} 天',
+  'common.round': '第 {round} 張卡',
+  'common.attended': '出席',
+  'common.absent': '缺席',
+  'common.untitledLesson': '未填寫內容',
+  'common.listSeparator': '、',
+  'common.language': '語言',
+  'common.undo': '復原',
+  'common.redo': '重做',
+
+  // 首頁
+  'home.subtitle': '家教學生集點簿',
+  'home.create.title': '新增學生',
+  'home.create.description': '建立新的集點卡',
+  'home.records.title': '學生列表',
+  'home.records.description': '查看 {count} 位學生的進度',
+  'home.calendar.title': '課程月曆',
+  'home.calendar.description': '查看每天的上課與蓋章紀錄',
+  'home.groups.title': '班級 / 分組',
+  'home.groups.manage': '管理分組',
+  'home.groups.empty': '還沒有分組，可以依科目或班級建立分組。',
+  'home.rewards.title': '獎勵設定',
+  'home.rewards.description': '設定集滿幾格可以換什麼',
+  'home.backup.title': '備份與還原',
+  'home.backup.description': '匯出或匯入所有學生資料',
+  'home.trash.title': '垃圾桶',
+  'home.trash.description': '{count} 張已刪除的卡片，可以復原',
+
+  // 新增學生
+  'create.title': '新增學生卡片',
+  'create.nameLabel': '學生姓名',
+  'create.namePlaceholder': '請輸入姓名',
+  'create.goalLabel': '每張卡格數',
+  'create.submit': '建立集點卡',
+
+  // 學生列表
+  'records.title': '學生列表',
+  'records.sessionMode': '課堂模式',
+  'records.searchPlaceholder': '搜尋學生姓名',
+  'records.sort.created': '建立時間',
+  'records.sort.name': '姓名',
+  'records.sort.points': '點數',
+  'records.sort.activity': '最近蓋章',
+  'records.filter.all': '全部',
+  'records.filter.nearComplete': '快集滿了',
+  'records.filter.inactive': '兩週沒蓋章',
+  'records.emptyGroup': '這個分組還沒有學生',
+  'records.emptyGroupHint': '可以在學生的集點卡頁面加入分組',
+  'records.noMatches': '找不到符合條件的學生',
+  'records.empty': '目前還沒有學生資料',
+  'records.createFirst': '新增一位學生',
+  'records.selectAll': '全選',
+  'records.stampSelected': '幫 {count} 位學生蓋章',
+
+  // 刪除確認
+  'deleteModal.title': '要移到垃圾桶嗎？',
+  'deleteModal.message': '「{name}」的集點卡會移到垃圾桶。',
+  'deleteModal.warning': '{count} 天內都可以從垃圾桶復原，之後會永久刪除。',
+  'deleteModal.confirm': '移到垃圾桶',
+
+  // 分享
+  'share.title': '分享給學生',
+  'share.previewWarningTitle': '注意：預覽模式無法分享連結',
+  'share.previewWarning': '您目前的網址是暫時的 (Blob)，無法傳送給他人。請使用下方的「模擬預覽」功能測試。',
+  'share.instructions': '請複製下方連結傳送給學生。',
+  'share.snapshotNote': '注意：此為當下狀態快照，更新點數後需重新分享。',
+  'share.signed': '已加上簽章。請另外 (當面或傳訊息) 把這組金鑰指紋告訴家長，讓他們比對：',
+  'share.unsigned': '此裝置無法簽章，學生將看到「未驗證」標示',
+  'share.previewPlaceholder': '請使用下方按鈕進行模擬預覽',
+  'share.simulate': '在此裝置模擬預覽',
+  'share.copied': '已複製',
+  'share.copy': '複製連結',
+  'share.manualCopy': '請手動複製: {query}',
+  'share.qrFullscreen': '全螢幕顯示',
+  'share.qrSave': '儲存圖片',
+  'share.qrSaveError': '無法儲存 QR code，請再試一次',
+  'share.qrFileName': '{name}-QR.png',
+  'share.qrTapToClose': '點一下畫面關閉',
+
+  // 學生端 (唯讀)
+  'readOnly.previewMode': '集點卡預覽模式',
+  'readOnly.progressTitle': '這是您的目前進度',
+  'readOnly.progressHint': '請繼續加油，向老師爭取更多獎勵！',
+  'readOnly.exitPreview': '退出預覽',
+  'readOnly.completed': '🎉 太棒了！集點完成！',
+  'readOnly.completedRounds': '已經集滿 {count} 張卡了！',
+  'readOnly.rewardRedeemed': '已兌換',
+  'readOnly.rewardReady': '可以兌換囉！',
+  'readOnly.rewardRemaining': '還差 {count} 格',
+
+  // 集點卡 (學生卡片上的文字)
+  'card.label': '學生集點卡',
+  'card.roundLabel': '學生集點卡 · 第 {round} 張',
+  'card.points': '點',
+  'card.rewardTier': '{stamps} 格 · {label}',
+  'card.stampProgress': '{count}/{goal} 格',
+
+  // 集點卡詳細頁
+  'detail.share': '分享給學生',
+  'detail.justCompleted': '🎉 太棒了！第 {round} 張卡集點完成！',
+  'detail.reasonPlaceholder': '蓋章原因 (選填，例如：完成作業)',
+  'detail.tapHint': '點擊圓圈即可蓋章',
+  'detail.groups': '所屬分組',
+  'detail.pendingRewards': '可兌換的獎勵',
+  'detail.redeem': '兌換',
+  'detail.redemptions': '兌換紀錄',
+  'detail.deletedReward': '已刪除的獎勵',
+  'detail.completedRounds': '已完成的集點卡',
+  'detail.completedRound': '第 {round} 張 · {goal} 格',
+  'detail.completedAt': '{date} 完成',
+  'detail.shareLanguage': '分享連結語言',
+  'detail.shareLanguageAuto': '依開啟的裝置',
+
+  // 下載圖片與列印
+  'export.image': '下載圖片',
+  'export.print': '列印 {size}',
+  'export.date': '日期：{date}',
+  'export.fileName': '{name}-集點卡.png',
+  'export.error': '無法產生圖片，請再試一次',
+
+  // 垃圾桶
+  'trash.title': '垃圾桶',
+  'trash.empty': '垃圾桶是空的',
+  'trash.retention': '保留天數',
+  'trash.retentionHint': '移到垃圾桶的卡片超過保留天數後，會在下次開啟 App 時連同課程紀錄永久刪除。',
+  'trash.retentionConfirm': '改為 {days} 天後，有 {count} 張卡片已經超過保留天數，會立即永久刪除。',
+  'trash.retentionApply': '確定並永久刪除',
+  'trash.deletedAt': '{date} 刪除',
+  'trash.remaining': '{count} 天後永久刪除',
+  'trash.restore': '復原',
+  'trash.purge': '永久刪除',
+  'trash.purgeAll': '清空垃圾桶',
+  'trash.confirmPurge': '再按一次確認',
+  'trash.moved': '已將「{name}」移到垃圾桶',
+
+  // 多個分頁的修改衝突
+  'conflict.title': '「{name}」在另一個分頁也被修改了',
+  'conflict.description': '這裡是 {local} 點，另一個分頁 ({time}) 是 {remote} 點。要保留哪一份？',
+  'conflict.more': '還有 {count} 位學生有相同的情況',
+  'conflict.keepLocal': '保留這裡的版本',
+  'conflict.useRemote': '使用另一個分頁的版本',
+
+  // 復原/重做
+  'history.undoAction': '復原：{action}',
+  'history.redoAction': '重做：{action}',
+  'history.undoStale': '無法復原「{action}」：之後又有修改 (可能在其他分頁)，已略過這一步',
+  'history.redoStale': '無法重做「{action}」：之後又有修改 (可能在其他分頁)，已略過這一步',
+  'history.action.create': '新增學生',
+  'history.action.delete': '刪除學生',
+  'history.action.restore': '還原學生',
+  'history.action.stamp': '蓋章',
+  'history.action.session': '課堂蓋章',
+  'history.action.revertSession': '撤銷課堂蓋章',
+  'history.action.lesson': '新增課程',
+  'history.action.deleteLesson': '刪除課程',
+  'history.action.profile': '編輯學生資料',
+  'history.action.theme': '更換卡片樣式',
+  'history.action.locale': '更換卡片語言',
+  'history.action.redeem': '兌換獎勵',
+  'history.action.group': '調整分組',
+  'history.action.import': '匯入備份',
+  'history.action.points': '加減點',
+
+  // 學生資料
+  'profile.title': '學生資料',
+  'profile.edit': '編輯資料',
+  'profile.editTitle': '編輯學生資料',
+  'profile.empty': '還沒有填寫學生資料',
+  'profile.nickname': '暱稱',
+  'profile.grade': '年級',
+  'profile.gradePlaceholder': '例如：國小三年級',
+  'profile.parentName': '家長姓名',
+  'profile.parentContact': '家長聯絡方式',
+  'profile.parentContactPlaceholder': '電話、Email 或 LINE ID',
+  'profile.notes': '老師備註',
+  'profile.addPhoto': '加入照片',
+  'profile.changePhoto': '更換照片',
+  'profile.removePhoto': '移除照片',
+  'profile.photoError': '無法讀取這張照片，請換一張試試',
+  'profile.privateNote': '照片、家長資料與備註只會存在這台裝置，不會出現在分享連結中',
+  'profile.save': '儲存',
+
+  // 離線提示
+  'offline.banner': '目前離線，資料仍會儲存在這台裝置',
+
+  // 無法讀取資料
+  'loadError.title': '無法讀取學生資料',
+  'loadError.description': '瀏覽器的資料庫目前無法使用 (例如另一個分頁正在更新，或儲存空間已滿)。資料沒有被修改，請關閉其他分頁後重新整理。',
+  'loadError.retry': '重新整理',
+
+  // 卡片樣式
+  'theme.title': '卡片樣式',
+  'theme.color': '卡片顏色',
+  'theme.customColor': '自訂顏色',
+  'theme.stampIcon': '印章圖案',
+  'theme.icon.check': '打勾',
+  'theme.icon.star': '星星',
+  'theme.icon.heart': '愛心',
+  'theme.icon.paw': '腳印',
+  'theme.icon.cat': '貓咪',
+
+  // 蓋章紀錄
+  'timeline.title': '蓋章紀錄',
+  'timeline.empty': '還沒有任何蓋章紀錄',
+  'timeline.stamped': '蓋章 第 {index} 格',
+  'timeline.unstamped': '取消蓋章 第 {index} 格',
+  'timeline.source.manual': '手動蓋章',
+  'timeline.source.session': '課堂蓋章',
+  'timeline.source.revert': '復原課堂蓋章',
+  'timeline.source.lesson': '課程紀錄',
+
+  // 蓋章種類與點數帳本
+  'stampType.homework': '作業',
+  'stampType.test': '考試',
+  'stampType.bonus': '表現優異',
+  'points.title': '點數',
+  'points.balance': '餘額 {count} 點',
+  'points.adjust': '加減點',
+  'points.reasonPlaceholder': '原因 (必填，例如：上課專心)',
+  'points.add': '加 {count} 點',
+  'points.deduct': '扣 {count} 點',
+  'points.empty': '還沒有任何點數紀錄',
+  'points.source.stamp': '蓋章 · {type}',
+  'points.source.unstamp': '取消蓋章 · {type}',
+  'points.source.adjustment': '手動調整',
+  'points.source.opening': '原有點數',
+
+  // 成就徽章
+  'badge.title': '成就徽章',
+  'badge.progress': '{value}/{threshold}',
+  'badge.streak3.title': '連續出席',
+  'badge.streak3.description': '連續出席 3 堂課',
+  'badge.streak10.title': '全勤之星',
+  'badge.streak10.description': '連續出席 10 堂課',
+  'badge.firstCard.title': '第一張集滿',
+  'badge.firstCard.description': '集滿第一張集點卡',
+  'badge.threeCards.title': '集點達人',
+  'badge.threeCards.description': '集滿 3 張集點卡',
+  'badge.stamps100.title': '百章紀念',
+  'badge.stamps100.description': '累積蓋滿 100 格',
+  'badge.everyWeek.title': '每週都努力',
+  'badge.everyWeek.description': '這個月每一週都有得到章',
+
+  // 鼓勵文字的離線範本 (依進度階段)
+  'encouragement.justStarted': '{name}，好的開始！距離「{reward}」還有 {count} 格，加油！',
+  'encouragement.halfway': '{name}，已經完成一半了！距離「{reward}」只剩 {count} 格！',
+  'encouragement.oneAway': '{name}，再 1 格就達成「{reward}」了！',
+  'encouragement.completed': '🎉 {name} 集滿一張卡了，太厲害了！',
+  'encouragement.fullCard': '集滿整張卡',
+  'encouragement.settingsTitle': 'AI 鼓勵文字',
+  'encouragement.settingsDescription': '輸入自己的 Gemini API key 後，老師這台裝置上的集點卡會用 Gemini 產生鼓勵文字。key 只存在這台裝置，不會送出學生的名字；學生開啟的分享連結一律使用內建的文字。',
+  'encouragement.apiKeyPlaceholder': 'Gemini API key',
+  'encouragement.saveApiKey': '儲存',
+  'encouragement.removeApiKey': '移除',
+  'encouragement.usingGemini': '目前使用 Gemini 產生鼓勵文字',
+  'encouragement.usingTemplates': '目前使用內建的鼓勵文字',
+
+  // 獎勵設定
+  'rewards.title': '獎勵設定',
+  'rewards.description': '集滿指定格數後，可以在學生的集點卡上兌換獎勵。每張卡的每個獎勵只能兌換一次。',
+  'rewards.stampsUnit': '格',
+  'rewards.labelPlaceholder': '獎勵內容',
+  'rewards.add': '新增獎勵',
+
+  // 簽章驗證
+  'verification.signed': '已簽章，請與老師另外提供的金鑰指紋比對',
+  'verification.matched': '與老師提供的金鑰指紋相符',
+  'verification.mismatch': '金鑰指紋與老師提供的不同，請向老師確認',
+  'verification.fingerprintPlaceholder': '輸入老師提供的金鑰指紋',
+  'verification.saveFingerprint': '記住',
+  'verification.clearFingerprint': '清除記住的金鑰指紋',
+  'verification.modified': '內容已被修改，請向老師確認',
+  'verification.unsigned': '未簽章的連結，無法驗證',
+
+  // 備份與還原
+  'backup.title': '備份與還原',
+  'backup.export.title': '匯出備份',
+  'backup.export.description': '下載包含 {count} 位學生、課程紀錄、分組與獎勵設定的備份檔，換手機或清除瀏覽器前請先備份。',
+  'backup.export.button': '下載備份檔',
+  'backup.import.title': '匯入備份',
+  'backup.import.description': '選擇備份檔後，會先顯示與目前資料的差異，再決定要合併或取代。',
+  'backup.import.button': '選擇備份檔',
+  'backup.diff.title': '比對結果',
+  'backup.diff.exportedAt': '備份時間：{date}',
+  'backup.diff.added': '新增',
+  'backup.diff.changed': '更新',
+  'backup.diff.conflicts': '衝突',
+  'backup.diff.unchanged': '相同',
+  'backup.diff.addedList': '新學生',
+  'backup.diff.changedList': '備份中有較新紀錄',
+  'backup.diff.conflictList': '兩邊都有變更，請選擇要保留的版本',
+  'backup.diff.conflictDetail': '本機 {localPoints}/{localGoal} 格 · 備份 {incomingPoints}/{incomingGoal} 格',
+  'backup.diff.useIncoming': '使用備份',
+  'backup.diff.keepLocal': '保留本機',
+  'backup.merge': '合併到目前資料',
+  'backup.replace': '以備份取代全部資料',
+  'backup.replaceConfirm': '確定取代？目前的 {count} 位學生將被移除',
+  'backup.merged': '已合併：新增 {added} 位、更新 {updated} 位學生',
+  'backup.replaced': '已取代為備份中的 {count} 位學生',
+  'backup.error.unreadable': '無法讀取備份檔',
+  'backup.error.invalidJson': '檔案不是有效的 JSON 格式',
+  'backup.error.wrongApp': '這不是 Student Rewards 的備份檔',
+  'backup.error.newerVersion': '備份檔版本較新，請先更新 App 再匯入',
+  'backup.error.missingCards': '備份檔缺少學生資料',
+  'backup.error.invalidCard': '第 {index} 筆學生資料格式錯誤',
+  'backup.error.duplicateIds': '備份檔中有重複的學生 ID',
+  'backup.error.invalidRewardTiers': '備份檔中的獎勵設定格式錯誤',
+  'backup.error.invalidGroups': '備份檔中的分組格式錯誤',
+  'backup.error.invalidLessons': '備份檔中的課程紀錄格式錯誤',
+
+  // 班級 / 分組
+  'groups.title': '班級 / 分組',
+  'groups.namePlaceholder': '例如：週三數學班',
+  'groups.empty': '建立分組後，可以在學生的集點卡頁面把學生加入分組。',
+  'groups.rename': '重新命名',
+
+  // 課堂蓋章
+  'session.title': '課堂蓋章',
+  'session.addToAll': '全部 +1',
+  'session.reasonPlaceholder': '蓋章原因 (選填，例如：週三數學課)',
+  'session.confirm': '確認蓋章 (共 {count} 個章)',
+  'session.stamped': '已幫 {students} 位學生蓋了 {count} 個章',
+  'session.reverted': '已復原這次課堂蓋章',
+  'session.revertedWithSkipped': '已復原，但有 {count} 個章已在集滿封存的卡片上或之後被重新蓋過，保留不動',
+  'session.history': '課堂蓋章紀錄',
+  'session.historyEmpty': '還沒有課堂蓋章紀錄',
+  'session.batchReverted': '已復原',
+  'session.revert': '整批復原',
+  'session.revertConfirm': '確定復原',
+
+  // 課程紀錄
+  'lesson.title': '課程紀錄',
+  'lesson.topicPlaceholder': '上課內容 (例如：分數的加減)',
+  'lesson.stampsAwarded': '給幾個章',
+  'lesson.save': '儲存課程',
+  'lesson.empty': '還沒有課程紀錄',
+  'lesson.stampsSummary': '蓋 {count} 個章',
+  'lesson.delete': '刪除課程紀錄',
+  'lesson.deleteWithStamps': '刪除並收回 {count} 個章',
+
+  // 課程月曆
+  'calendar.title': '課程月曆',
+  'calendar.emptyDay': '這天沒有課程或蓋章紀錄',
+  'calendar.stamps': '蓋章：{list}',
+
+  // 首頁統計
+  'dashboard.title': '學習進度統計',
+  'dashboard.weekly': '每週蓋章數 (最近 {count} 週)',
+  'dashboard.mostActive': '最活躍 ({count} 天)',
+  'dashboard.noStamps': '還沒有蓋章',
+  'dashboard.leastActive': '最需要鼓勵',
+  'dashboard.everyoneActive': '每位學生都很活躍',
+  'dashboard.averageCompletion': '平均集滿一張卡',
+  'dashboard.inactive': '{count} 天沒蓋章'
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof zhTW;
+export type MessageParams = Record<string, string | number>;
+
+const en: Record<MessageKey, Message> = {
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.add': 'Add',
+  'common.delete': 'Delete',
+  'common.allStudents': 'All students',
+  'common.studentCount': { one: '{count} student', other: '{count} students' },
+  'common.stampCount': { one: '{count} stamp', other: '{count} stamps' },
+  'common.minutes': '{count} min',
+  'common.days': { one: '{count} day', other: '{count} days' },
+  'common.round': 'Card {round}',
+  'common.attended': 'Present',
+  'common.absent': 'Absent',
+  'common.untitledLesson': 'No topic',
+  'common.listSeparator': ', ',
+  'common.language': 'Language',
+  'common.undo': 'Undo',
+  'common.redo': 'Redo',
+
+  'home.subtitle': 'Reward cards for tutoring students',
+  'home.create.title': 'New student',
+  'home.create.description': 'Start a new reward card',
+  'home.records.title': 'Students',
+  'home.records.description': { one: 'See progress for {count} student', other: 'See progress for {count} students' },
+  'home.calendar.title': 'Lesson calendar',
+  'home.calendar.description': 'Lessons and stamps for each day',
+  'home.groups.title': 'Classes / Groups',
+  'home.groups.manage': 'Manage groups',
+  'home.groups.empty': 'No groups yet. Create one for each subject or class.',
+  'home.rewards.title': 'Rewards',
+  'home.rewards.description': 'Choose what each milestone earns',
+  'home.backup.title': 'Backup & restore',
+  'home.backup.description': 'Export or import all student data',
+  'home.trash.title': 'Trash',
+  'home.trash.description': { one: '{count} deleted card you can restore', other: '{count} deleted cards you can restore' },
+
+  'create.title': 'New student card',
+  'create.nameLabel': 'Student name',
+  'create.namePlaceholder': 'Enter a name',
+  'create.goalLabel': 'Stamps per card',
+  'create.submit': 'Create card',
+
+  'records.title': 'Students',
+  'records.sessionMode': 'Class session',
+  'records.searchPlaceholder': 'Search by name',
+  'records.sort.created': 'Date created',
+  'records.sort.name': 'Name',
+  'records.sort.points': 'Points',
+  'records.sort.activity': 'Recent stamps',
+  'records.filter.all': 'All',
+  'records.filter.nearComplete': 'Almost complete',
+  'records.filter.inactive': 'No stamps in 2 weeks',
+  'records.emptyGroup': 'No students in this group yet',
+  'records.emptyGroupHint': 'Add students to groups from their card page',
+  'records.noMatches': 'No students match',
+  'records.empty': 'No students yet',
+  'records.createFirst': 'Add a student',
+  'records.selectAll': 'Select all',
+  'records.stampSelected': { one: 'Stamp {count} student', other: 'Stamp {count} students' },
+
+  'deleteModal.title': 'Move to trash?',
+  'deleteModal.message': 'The card for "{name}" will be moved to the trash.',
+  'deleteModal.warning': { one: 'You can restore it from the trash for {count} day, then it is deleted for good.', other: 'You can restore it from the trash for {count} days, then it is deleted for good.' },
+  'deleteModal.confirm': 'Move to trash',
+
+  'share.title': 'Share with student',
+  'share.previewWarningTitle': 'Links can’t be shared from a preview',
+  'share.previewWarning': 'This page has a temporary (blob) address that nobody else can open. Use "Preview on this device" below to test.',
+  'share.instructions': 'Copy the link below and send it to the student.',
+  'share.snapshotNote': 'This is a snapshot. Share again after giving more stamps.',
+  'share.signed': 'Signed. Tell parents this key fingerprint separately (in person or by message) so they can compare it:',
+  'share.unsigned': 'This device can’t sign links, so the student will see "unverified"',
+  'share.previewPlaceholder': 'Use the button below to preview',
+  'share.simulate': 'Preview on this device',
+  'share.copied': 'Copied',
+  'share.copy': 'Copy link',
+  'share.manualCopy': 'Copy manually: {query}',
+  'share.qrFullscreen': 'Full screen',
+  'share.qrSave': 'Save image',
+  'share.qrSaveError': 'Couldn’t save the QR code. Please try again.',
+  'share.qrFileName': '{name}-QR.png',
+  'share.qrTapToClose': 'Tap anywhere to close',
+
+  'readOnly.previewMode': 'Reward card preview',
+  'readOnly.progressTitle': 'This is your progress so far',
+  'readOnly.progressHint': 'Keep going and earn more rewards from your tutor!',
+  'readOnly.exitPreview': 'Exit preview',
+  'readOnly.completed': '🎉 Awesome! Card complete!',
+  'readOnly.completedRounds': { one: "You've filled {count} card!", other: "You've filled {count} cards!" },
+  'readOnly.rewardRedeemed': 'Redeemed',
+  'readOnly.rewardReady': 'Ready to redeem!',
+  'readOnly.rewardRemaining': { one: '{count} stamp to go', other: '{count} stamps to go' },
+
+  'card.label': 'Student Card',
+  'card.roundLabel': 'Student Card · No.{round}',
+  'card.points': 'PTS',
+  'card.rewardTier': '{stamps} stamps · {label}',
+  'card.stampProgress': '{count}/{goal} stamps',
+
+  'detail.share': 'Share with student',
+  'detail.justCompleted': '🎉 Awesome! Card {round} is complete!',
+  'detail.reasonPlaceholder': 'Reason (optional, e.g. finished homework)',
+  'detail.tapHint': 'Tap a circle to stamp it',
+  'detail.groups': 'Groups',
+  'detail.pendingRewards': 'Rewards to hand out',
+  'detail.redeem': 'Redeem',
+  'detail.redemptions': 'Redeemed rewards',
+  'detail.deletedReward': 'Deleted reward',
+  'detail.completedRounds': 'Completed cards',
+  'detail.completedRound': 'Card {round} · {goal} stamps',
+  'detail.completedAt': 'Completed {date}',
+  'detail.shareLanguage': 'Share link language',
+  'detail.shareLanguageAuto': 'Viewer’s device',
+
+  'export.image': 'Download image',
+  'export.print': 'Print {size}',
+  'export.date': 'Date: {date}',
+  'export.fileName': '{name}-reward-card.png',
+  'export.error': 'Couldn’t create the image. Please try again.',
+
+  'trash.title': 'Trash',
+  'trash.empty': 'The trash is empty',
+  'trash.retention': 'Keep deleted cards for',
+  'trash.retentionHint': 'Cards older than this are deleted for good, together with their lesson log, the next time the app opens.',
+  'trash.retentionConfirm': {
+    one: 'With {days} days, {count} card is already past the limit and will be deleted for good right away.',
+    other: 'With {days} days, {count} cards are already past the limit and will be deleted for good right away.'
+  },
+  'trash.retentionApply': 'Change and delete',
+  'trash.deletedAt': 'Deleted {date}',
+  'trash.remaining': { one: 'Deleted for good in {count} day', other: 'Deleted for good in {count} days' },
+  'trash.restore': 'Restore',
+  'trash.purge': 'Delete forever',
+  'trash.purgeAll': 'Empty trash',
+  'trash.confirmPurge': 'Tap again to confirm',
+  'trash.moved': 'Moved "{name}" to the trash',
+
+  'conflict.title': '"{name}" was also changed in another tab',
+  'conflict.description': 'This tab has {local} points, the other tab ({time}) has {remote}. Which one do you want to keep?',
+  'conflict.more': { one: '{count} more student has the same problem', other: '{count} more students have the same problem' },
+  'conflict.keepLocal': 'Keep this version',
+  'conflict.useRemote': 'Use the other tab’s version',
+
+  'history.undoAction': 'Undo: {action}',
+  'history.redoAction': 'Redo: {action}',
+  'history.undoStale': 'Can’t undo "{action}": the data changed afterwards (maybe in another tab), so this step was skipped',
+  'history.redoStale': 'Can’t redo "{action}": the data changed afterwards (maybe in another tab), so this step was skipped',
+  'history.action.create': 'add student',
+  'history.action.delete': 'delete student',
+  'history.action.restore': 'restore student',
+  'history.action.stamp': 'stamp',
+  'history.action.session': 'class session stamps',
+  'history.action.revertSession': 'revert class session',
+  'history.action.lesson': 'add lesson',
+  'history.action.deleteLesson': 'delete lesson',
+  'history.action.profile': 'edit profile',
+  'history.action.theme': 'change card look',
+  'history.action.locale': 'change card language',
+  'history.action.redeem': 'redeem reward',
+  'history.action.group': 'change groups',
+  'history.action.import': 'import backup',
+  'history.action.points': 'adjust points',
+
+  'profile.title': 'Student profile',
+  'profile.edit': 'Edit profile',
+  'profile.editTitle': 'Edit student profile',
+  'profile.empty': 'No profile details yet',
+  'profile.nickname': 'Nickname',
+  'profile.grade': 'Grade',
+  'profile.gradePlaceholder': 'e.g. Grade 3',
+  'profile.parentName': 'Parent name',
+  'profile.parentContact': 'Parent contact',
+  'profile.parentContactPlaceholder': 'Phone, email or LINE ID',
+  'profile.notes': 'Tutor notes',
+  'profile.addPhoto': 'Add photo',
+  'profile.changePhoto': 'Change photo',
+  'profile.removePhoto': 'Remove photo',
+  'profile.photoError': 'Couldn’t read this photo. Please try another one.',
+  'profile.privateNote': 'The photo, parent details and notes stay on this device and are never included in share links.',
+  'profile.save': 'Save',
+
+  'offline.banner': 'You’re offline. Changes are still saved on this device.',
+
+  'loadError.title': 'Couldn’t load student data',
+  'loadError.description': 'The browser database isn’t available right now (for example another tab is updating it, or storage is full). Nothing was changed. Close other tabs and reload.',
+  'loadError.retry': 'Reload',
+
+  'theme.title': 'Card style',
+  'theme.color': 'Card color',
+  'theme.customColor': 'Custom color',
+  'theme.stampIcon': 'Stamp design',
+  'theme.icon.check': 'Check',
+  'theme.icon.star': 'Star',
+  'theme.icon.heart': 'Heart',
+  'theme.icon.paw': 'Paw',
+  'theme.icon.cat': 'Cat',
+
+  'timeline.title': 'Stamp history',
+  'timeline.empty': 'No stamps yet',
+  'timeline.stamped': 'Stamped #{index}',
+  'timeline.unstamped': 'Removed stamp #{index}',
+  'timeline.source.manual': 'Manual',
+  'timeline.source.session': 'Class session',
+  'timeline.source.revert': 'Session reverted',
+  'timeline.source.lesson': 'Lesson',
+
+  'stampType.homework': 'Homework',
+  'stampType.test': 'Test',
+  'stampType.bonus': 'Bonus',
+  'points.title': 'Points',
+  'points.balance': { one: 'Balance: {count} point', other: 'Balance: {count} points' },
+  'points.adjust': 'Adjust',
+  'points.reasonPlaceholder': 'Reason (required, e.g. great focus)',
+  'points.add': { one: 'Add {count} point', other: 'Add {count} points' },
+  'points.deduct': { one: 'Deduct {count} point', other: 'Deduct {count} points' },
+  'points.empty': 'No point activity yet',
+  'points.source.stamp': 'Stamp · {type}',
+  'points.source.unstamp': 'Stamp removed · {type}',
+  'points.source.adjustment': 'Manual adjustment',
+  'points.source.opening': 'Starting balance',
+
+  'badge.title': 'Badges',
+  'badge.progress': '{value}/{threshold}',
+  'badge.streak3.title': 'On a roll',
+  'badge.streak3.description': 'Attended 3 lessons in a row',
+  'badge.streak10.title': 'Perfect attendance',
+  'badge.streak10.description': 'Attended 10 lessons in a row',
+  'badge.firstCard.title': 'First full card',
+  'badge.firstCard.description': 'Filled the first card',
+  'badge.threeCards.title': 'Card collector',
+  'badge.threeCards.description': 'Filled 3 cards',
+  'badge.stamps100.title': '100 stamps',
+  'badge.stamps100.description': 'Collected 100 stamps in total',
+  'badge.everyWeek.title': 'Every single week',
+  'badge.everyWeek.description': 'Got a stamp every week this month',
+
+  'encouragement.justStarted': { one: 'Great start, {name}! Just {count} more stamp until “{reward}”.', other: 'Great start, {name}! {count} more stamps until “{reward}”.' },
+  'encouragement.halfway': { one: 'Halfway there, {name}! Only {count} stamp left until “{reward}”.', other: 'Halfway there, {name}! Only {count} stamps left until “{reward}”.' },
+  'encouragement.oneAway': 'So close, {name}! One more stamp until “{reward}”!',
+  'encouragement.completed': '🎉 Amazing, {name}! You filled a whole card!',
+  'encouragement.fullCard': 'a full card',
+  'encouragement.settingsTitle': 'AI encouragement',
+  'encouragement.settingsDescription': 'Enter your own Gemini API key to have Gemini write the encouragement lines on this device. The key stays on this device and student names are never sent. Share links opened by students always use the built-in messages.',
+  'encouragement.apiKeyPlaceholder': 'Gemini API key',
+  'encouragement.saveApiKey': 'Save',
+  'encouragement.removeApiKey': 'Remove',
+  'encouragement.usingGemini': 'Using Gemini for encouragement lines',
+  'encouragement.usingTemplates': 'Using built-in encouragement lines',
+
+  'rewards.title': 'Rewards',
+  'rewards.description': 'Students can redeem a reward once they reach the number of stamps. Each reward can be redeemed once per card.',
+  'rewards.stampsUnit': 'stamps',
+  'rewards.labelPlaceholder': 'Reward',
+  'rewards.add': 'Add reward',
+
+  'verification.signed': 'Signed. Compare with the key fingerprint your tutor gave you',
+  'verification.matched': 'Matches your tutor’s key fingerprint',
+  'verification.mismatch': 'Doesn’t match your tutor’s key fingerprint. Please check with your tutor',
+  'verification.fingerprintPlaceholder': 'Tutor’s key fingerprint',
+  'verification.saveFingerprint': 'Save',
+  'verification.clearFingerprint': 'Forget saved fingerprint',
+  'verification.modified': 'This card was modified. Please check with your tutor',
+  'verification.unsigned': 'Unsigned link, can’t be verified',
+
+  'backup.title': 'Backup & restore',
+  'backup.export.title': 'Export backup',
+  'backup.export.description': 'Download a backup with {count} students, lessons, groups and reward settings. Back up before switching phones or clearing the browser.',
+  'backup.export.button': 'Download backup',
+  'backup.import.title': 'Import backup',
+  'backup.import.description': 'After choosing a backup file you will see how it differs from your current data before merging or replacing.',
+  'backup.import.button': 'Choose backup file',
+  'backup.diff.title': 'Comparison',
+  'backup.diff.exportedAt': 'Backed up: {date}',
+  'backup.diff.added': 'New',
+  'backup.diff.changed': 'Updated',
+  'backup.diff.conflicts': 'Conflicts',
+  'backup.diff.unchanged': 'Same',
+  'backup.diff.addedList': 'New students',
+  'backup.diff.changedList': 'Newer in the backup',
+  'backup.diff.conflictList': 'Changed on both sides. Choose which version to keep',
+  'backup.diff.conflictDetail': 'This device {localPoints}/{localGoal} · Backup {incomingPoints}/{incomingGoal}',
+  'backup.diff.useIncoming': 'Use backup',
+  'backup.diff.keepLocal': 'Keep local',
+  'backup.merge': 'Merge into current data',
+  'backup.replace': 'Replace everything with the backup',
+  'backup.replaceConfirm': { one: 'Replace? The current {count} student will be removed', other: 'Replace? The current {count} students will be removed' },
+  'backup.merged': 'Merged: {added} added, {updated} updated',
+  'backup.replaced': { one: 'Replaced with {count} student from the backup', other: 'Replaced with {count} students from the backup' },
+  'backup.error.unreadable': 'Could not read the backup file',
+  'backup.error.invalidJson': 'The file is not valid JSON',
+  'backup.error.wrongApp': 'This is not a Student Rewards backup',
+  'backup.error.newerVersion': 'This backup is from a newer version. Please update the app first',
+  'backup.error.missingCards': 'The backup has no student data',
+  'backup.error.invalidCard': 'Student #{index} in the backup is invalid',
+  'backup.error.duplicateIds': 'The backup contains duplicate student IDs',
+  'backup.error.invalidRewardTiers': 'The reward settings in the backup are invalid',
+  'backup.error.invalidGroups': 'The groups in the backup are invalid',
+  'backup.error.invalidLessons': 'The lessons in the backup are invalid',
+
+  'groups.title': 'Classes / Groups',
+  'groups.namePlaceholder': 'e.g. Wednesday math class',
+  'groups.empty': 'After creating a group, add students to it from their card page.',
+  'groups.rename': 'Rename',
+
+  'session.title': 'Class session',
+  'session.addToAll': 'All +1',
+  'session.reasonPlaceholder': 'Reason (optional, e.g. Wednesday math)',
+  'session.confirm': { one: 'Give {count} stamp', other: 'Give {count} stamps' },
+  'session.stamped': { one: 'Gave {count} stamp', other: 'Gave {count} stamps to {students} students' },
+  'session.reverted': 'Class session reverted',
+  'session.revertedWithSkipped': {
+    one: 'Reverted, but {count} stamp was kept because its card was completed or the slot was stamped again',
+    other: 'Reverted, but {count} stamps were kept because their cards were completed or the slots were stamped again'
+  },
+  'session.history': 'Session history',
+  'session.historyEmpty': 'No class sessions yet',
+  'session.batchReverted': 'Reverted',
+  'session.revert': 'Revert all',
+  'session.revertConfirm': 'Confirm revert',
+
+  'lesson.title': 'Lessons',
+  'lesson.topicPlaceholder': 'Topic (e.g. adding fractions)',
+  'lesson.stampsAwarded': 'Stamps to give',
+  'lesson.save': 'Save lesson',
+  'lesson.empty': 'No lessons yet',
+  'lesson.stampsSummary': { one: '{count} stamp', other: '{count} stamps' },
+  'lesson.delete': 'Delete lesson',
+  'lesson.deleteWithStamps': { one: 'Delete and take back {count} stamp', other: 'Delete and take back {count} stamps' },
+
+  'calendar.title': 'Lesson calendar',
+  'calendar.emptyDay': 'No lessons or stamps on this day',
+  'calendar.stamps': 'Stamps: {list}',
+
+  'dashboard.title': 'Progress',
+  'dashboard.weekly': 'Stamps per week (last {count} weeks)',
+  'dashboard.mostActive': 'Most active ({count} days)',
+  'dashboard.noStamps': 'No stamps yet',
+  'dashboard.leastActive': 'Needs encouragement',
+  'dashboard.everyoneActive': 'Everyone is active',
+  'dashboard.averageCompletion': 'Average time per card',
+  'dashboard.inactive': 'No stamps in {count} days'
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, Message>> = {
+  'zh-TW': zhTW,
+  en
+};
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// 第一次開啟時依瀏覽器語言決定，中文或無法判斷時使用 zh-TW
+export const detectLocale = (): Locale => {
+  const language = typeof navigator !== 'undefined' ? navigator.language.toLowerCase() : '';
+  return language.startsWith('en') ? 'en' : DEFAULT_LOCALE;
+};
+
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  const message = CATALOGS[locale][key] ?? zhTW[key];
+  const template = typeof message === 'string'
+    ? message
+    : new Intl.PluralRules(locale).select(Number(params.count)) === 'one' ? message.one : message.other;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match);
+};
+
+// 無法解析的日期 (例如損壞的資料) 顯示的文字
+const INVALID_DATE_TEXT = '—';
+
+// 預設只顯示日期 (與 toLocaleDateString 相同)；Intl.DateTimeFormat 遇到無效日期會丟出 RangeError，改顯示 INVALID_DATE_TEXT
+export const formatDate = (
+  locale: Locale,
+  value: string | number | Date,
+  options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'numeric', day: 'numeric' }
+): string => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return INVALID_DATE_TEXT;
+  return new Intl.DateTimeFormat(locale, options).format(date);
+};
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export interface I18n {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  formatDate: (value: string | number | Date, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+export const createI18n = (locale: Locale, setLocale: (locale: Locale) => void): I18n => ({
+  locale,
+  setLocale,
+  t: (key, params) => translate(locale, key, params),
+  formatDate: (value, options) => formatDate(locale, value, options)
+});
+
+export const I18nContext = createContext<I18n>(createI18n(DEFAULT_LOCALE, () => {}));
+
+export const useI18n = (): I18n => useContext(I18nContext);
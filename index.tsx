@@ -12,4 +12,14 @@ root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// 只有建置後才有 sw.js (見 vite.config.ts)，開發時不註冊以免快取住舊的程式碼
+// 放在 base 路徑下 (預設為 /)，service worker 的範圍也就是整個 App
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`).catch(error => {
+      console.error('Service worker 註冊失敗', error);
+    });
+  });
+}
@@ -0,0 +1,46 @@
+// Service worker 範本：建置時由 vite.config.ts 填入版本與預先快取的檔案清單，輸出為 sw.js (放在 base 路徑下)
+const CACHE_PREFIX = 'student-rewards-';
+const CACHE_NAME = CACHE_PREFIX + __CACHE_VERSION__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+// 所有畫面 (/records、/card/:id、?s= 分享連結) 都由同一個 index.html 開啟
+// sw.js 和 index.html 在同一層，以 sw.js 的位置解析，部署在子路徑時也正確
+const APP_SHELL_URL = new URL('index.html', self.location.href).href;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  if (new URL(request.url).origin !== self.location.origin) return;
+
+  // 先用快取回應，網路不穩時也能立刻開啟；新版本會在下一次安裝 service worker 時更新
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches.match(APP_SHELL_URL).then(cached => cached || fetch(request))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request).then(cached => cached || fetch(request))
+  );
+});
@@ -0,0 +1,302 @@
+import type { Card, CardHistory, Group, Lesson, RecordsListPrefs, RewardTier } from './App';
+import type { Locale } from './i18n';
+
+// --- IndexedDB Storage ---
+// 所有學生資料存放在 IndexedDB；資料庫結構的每一次變更都是一個依序執行的 migration
+
+const DB_NAME = 'student-rewards';
+
+// 舊版 (localStorage) 使用的 key，只在第一次升級時讀取
+const LEGACY_CARDS_KEY = 'loyaltyCards';
+const LEGACY_REWARD_TIERS_KEY = 'rewardTiers';
+
+export const STORES = {
+  cards: 'cards',
+  settings: 'settings',
+  groups: 'groups',
+  lessons: 'lessons'
+} as const;
+
+// 存放在 settings store 中的項目
+export interface StoredSettings {
+  rewardTiers: RewardTier[];
+  signingKey: CryptoKeyPair;
+  recordsListPrefs: RecordsListPrefs;
+  locale: Locale;
+  trashRetentionDays: number;
+  cardHistory: CardHistory;
+  geminiApiKey: string;   // 老師自己輸入的 API key，只存在這台裝置上 (不會放進備份或分享連結)
+}
+
+type StoredRecord = Record<string, unknown> & { id: number };
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (db: IDBDatabase, tx: IDBTransaction) => void;
+}
+
+// 將舊版以 toLocaleDateString('zh-TW') 存下的日期 (例如 "2025/1/5") 轉成 ISO 時間戳記
+export const toIsoTimestamp = (value: unknown, fallback: number): string => {
+  if (typeof value === 'string') {
+    const localeMatch = value.match(/^(\d{4})\/(\d{1,2})\/(\d{1,2})/);
+    if (localeMatch) {
+      const [, year, month, day] = localeMatch;
+      return new Date(Number(year), Number(month) - 1, Number(day)).toISOString();
+    }
+    const parsed = Date.parse(value);
+    if (!Number.isNaN(parsed)) return new Date(parsed).toISOString();
+  }
+  return new Date(fallback).toISOString();
+};
+
+const readLegacyJson = (key: string): unknown => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error(`讀取舊資料 ${key} 失敗`, error);
+    return null;
+  }
+};
+
+// 依版本排序，新的 migration 一律加在最後面
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: '建立 cards 與 settings，並搬移 localStorage 中的舊資料',
+    migrate: (db, tx) => {
+      db.createObjectStore(STORES.cards, { keyPath: 'id' });
+      db.createObjectStore(STORES.settings);
+
+      const legacyCards = readLegacyJson(LEGACY_CARDS_KEY);
+      if (Array.isArray(legacyCards)) {
+        const cardStore = tx.objectStore(STORES.cards);
+        (legacyCards as StoredRecord[]).forEach(card => {
+          cardStore.put({ ...card, createdAt: toIsoTimestamp(card.createdAt, card.id) });
+        });
+      }
+
+      const legacyTiers = readLegacyJson(LEGACY_REWARD_TIERS_KEY);
+      if (Array.isArray(legacyTiers)) {
+        tx.objectStore(STORES.settings).put(legacyTiers, 'rewardTiers');
+      }
+
+      tx.addEventListener('complete', () => {
+        localStorage.removeItem(LEGACY_CARDS_KEY);
+        localStorage.removeItem(LEGACY_REWARD_TIERS_KEY);
+      });
+    }
+  },
+  {
+    version: 2,
+    description: '新增 groups (班級/分組)，並為每張卡片加上 groupIds',
+    migrate: (db, tx) => {
+      db.createObjectStore(STORES.groups, { keyPath: 'id' });
+
+      tx.objectStore(STORES.cards).openCursor().onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        const card = cursor.value as StoredRecord;
+        if (!Array.isArray(card.groupIds)) {
+          cursor.update({ ...card, groupIds: [] });
+        }
+        cursor.continue();
+      };
+    }
+  },
+  {
+    version: 3,
+    description: '新增 lessons (課程與出缺席紀錄)',
+    migrate: (db) => {
+      const lessonStore = db.createObjectStore(STORES.lessons, { keyPath: 'id' });
+      lessonStore.createIndex('cardId', 'cardId');
+      lessonStore.createIndex('date', 'date');
+    }
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionToPromise = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        MIGRATIONS
+          .filter(migration => migration.version > event.oldVersion)
+          .forEach(migration => migration.migrate(db, tx));
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // 其他分頁 (較新的版本) 要升級資料庫時先關閉連線，不然升級會一直等待；下次存取時重新開啟
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      // 其他分頁還開著舊版的連線：等它關閉後升級就會繼續並觸發 onsuccess，所以不視為失敗
+      request.onblocked = () => console.warn('資料庫升級正在等待其他分頁關閉舊的連線');
+    });
+    // 開啟失敗時允許下次重試
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const loadAll = async <T>(storeName: string): Promise<T[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readonly');
+  return requestToPromise(tx.objectStore(storeName).getAll());
+};
+
+// 只寫入有變動與刪除的項目，其他分頁新增的項目不會因為這個分頁存檔而被刪除
+const saveRecordChanges = async <T extends { id: IDBValidKey }>(
+  storeName: string,
+  changed: T[],
+  deletedIds: IDBValidKey[]
+): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  changed.forEach(record => store.put(record));
+  deletedIds.forEach(id => store.delete(id));
+  return transactionToPromise(tx);
+};
+
+// 讀出的卡片可能是舊版結構，呼叫端需要再經過 normalizeCard
+export const loadCards = (): Promise<Card[]> => loadAll<Card>(STORES.cards);
+
+// 只寫入有變動的卡片，讓同時開著的其他分頁所做的修改不會被整批覆蓋
+// 資料庫中的版本比 baseRevisions 新 (其他分頁已經先存過) 時不覆蓋，改為回傳資料庫中的版本讓呼叫端處理衝突
+export const saveCardChanges = async (
+  changed: Card[],
+  deletedIds: number[],
+  baseRevisions: Map<number, number>
+): Promise<Card[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.cards, 'readwrite');
+  const store = tx.objectStore(STORES.cards);
+  const conflicts: Card[] = [];
+
+  changed.forEach(card => {
+    store.get(card.id).onsuccess = (event) => {
+      const stored = (event.target as IDBRequest<Card | undefined>).result;
+      if (stored && (stored.revision || 1) > (baseRevisions.get(card.id) ?? 0)) {
+        conflicts.push(stored);
+        return;
+      }
+      store.put(card);
+    };
+  });
+  deletedIds.forEach(id => store.delete(id));
+
+  await transactionToPromise(tx);
+  return conflicts;
+};
+
+export const loadGroups = (): Promise<Group[]> => loadAll<Group>(STORES.groups);
+
+export const saveGroupChanges = (changed: Group[], deletedIds: string[]): Promise<void> =>
+  saveRecordChanges(STORES.groups, changed, deletedIds);
+
+export const loadLessons = (): Promise<Lesson[]> => loadAll<Lesson>(STORES.lessons);
+
+export const saveLessonChanges = (changed: Lesson[], deletedIds: string[]): Promise<void> =>
+  saveRecordChanges(STORES.lessons, changed, deletedIds);
+
+export const loadSetting = async <K extends keyof StoredSettings>(key: K): Promise<StoredSettings[K] | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.settings, 'readonly');
+  return requestToPromise(tx.objectStore(STORES.settings).get(key));
+};
+
+export const saveSetting = async <K extends keyof StoredSettings>(key: K, value: StoredSettings[K]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.settings, 'readwrite');
+  tx.objectStore(STORES.settings).put(value, key);
+  return transactionToPromise(tx);
+};
+
+// --- Cross-tab Sync ---
+// 同一個瀏覽器開著多個分頁/視窗時，存檔後透過 BroadcastChannel 通知其他分頁
+
+const SYNC_CHANNEL_NAME = 'student-rewards-sync';
+
+export interface CardChangeMessage {
+  kind: 'cards';
+  cards: Card[];        // 剛寫入資料庫的卡片
+  deletedIds: number[];
+}
+
+// 課程紀錄與分組沒有 revision，同一筆資料兩個分頁都改過時以最後存檔的為準
+export type SyncedRecordKind = 'lessons' | 'groups';
+
+export interface RecordChangeMessage<T> {
+  kind: SyncedRecordKind;
+  records: T[];         // 剛寫入資料庫的項目
+  deletedIds: string[];
+}
+
+type SyncMessage = CardChangeMessage | RecordChangeMessage<unknown>;
+
+let syncChannel: BroadcastChannel | null = null;
+
+const getSyncChannel = (): BroadcastChannel | null => {
+  if (!syncChannel && typeof BroadcastChannel !== 'undefined') {
+    syncChannel = new BroadcastChannel(SYNC_CHANNEL_NAME);
+  }
+  return syncChannel;
+};
+
+export const broadcastCardChanges = (message: Omit<CardChangeMessage, 'kind'>): void => {
+  getSyncChannel()?.postMessage({ kind: 'cards', ...message } satisfies CardChangeMessage);
+};
+
+export const broadcastRecordChanges = <T>(message: RecordChangeMessage<T>): void => {
+  getSyncChannel()?.postMessage(message);
+};
+
+const subscribe = (listener: (message: SyncMessage) => void): (() => void) => {
+  const channel = getSyncChannel();
+  if (!channel) return () => {};
+  const handleMessage = (event: MessageEvent<SyncMessage>) => listener(event.data);
+  channel.addEventListener('message', handleMessage);
+  return () => channel.removeEventListener('message', handleMessage);
+};
+
+// 回傳取消訂閱的函式；不支援 BroadcastChannel 的瀏覽器不會收到通知，由呼叫端在切回分頁時重新讀取
+export const subscribeCardChanges = (listener: (message: CardChangeMessage) => void): (() => void) =>
+  subscribe(message => {
+    if (message.kind === 'cards') listener(message);
+  });
+
+export const subscribeRecordChanges = <T>(
+  kind: SyncedRecordKind,
+  listener: (message: RecordChangeMessage<T>) => void
+): (() => void) =>
+  subscribe(message => {
+    if (message.kind === kind) listener(message as RecordChangeMessage<T>);
+  });
@@ -1,19 +1,49 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from '@tailwindcss/vite';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+// 依打包結果產生 sw.js，預先快取所有檔案讓 App 可以離線使用
+// 網址都加上 base，部署在子路徑 (例如 vite build --base=/student-rewards/) 時也能快取到正確的檔案
+const serviceWorker = (): Plugin => {
+  let base = '/';
+  return {
+    name: 'student-rewards-service-worker',
+    apply: 'build',
+    configResolved(config) {
+      base = config.base;
+    },
+    generateBundle(_options, bundle) {
+      const publicDir = path.resolve(__dirname, 'public');
+      const publicFiles = fs.existsSync(publicDir) ? fs.readdirSync(publicDir) : [];
+      const urls = [...new Set(['index.html', ...Object.keys(bundle), ...publicFiles])]
+        .filter(file => !file.endsWith('.map'))
+        .map(file => `${base}${file}`)
+        .sort();
+
+      // 打包檔名已含內容 hash，public 內的檔案則要把內容也算進版本
+      const hash = createHash('sha256').update(urls.join('\n'));
+      publicFiles.forEach(file => hash.update(fs.readFileSync(path.join(publicDir, file))));
+      const version = hash.digest('hex').slice(0, 12);
+      const source = fs.readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf-8')
+        .replace('__CACHE_VERSION__', JSON.stringify(version))
+        .replace('__PRECACHE_URLS__', JSON.stringify(urls, null, 2));
+
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    }
+  };
+};
+
+export default defineConfig(() => {
+    // Gemini API key 不在建置時注入 (會被打包進公開的 JS)，改由老師在 App 的設定中輸入
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), tailwindcss(), serviceWorker()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),